@@ -0,0 +1,267 @@
+// Standalone player of the HTML export of VS Code Recorder.
+// The recording changes are embedded in the page as JSON by the extension.
+;(() => {
+	const changes = JSON.parse(document.getElementById('recording-data').textContent)
+	const duration = changes.reduce((max, change) => Math.max(max, change.endTime), 0)
+	const files = [...new Set(changes.map(change => change.file))]
+
+	const tabsElement = document.getElementById('tabs')
+	const gutterElement = document.getElementById('gutter')
+	const codeElement = document.getElementById('code')
+	const editorElement = document.getElementById('editor')
+	const playButton = document.getElementById('play')
+	const speedSelect = document.getElementById('speed')
+	const timeline = document.getElementById('timeline')
+	const timeLabel = document.getElementById('time')
+
+	const JS_KEYWORDS =
+		'async await break case catch class const continue debugger default delete do else export extends false finally for from function get if import in instanceof let new null of return set static super switch this throw true try typeof undefined var void while with yield'
+	const KEYWORDS = {
+		javascript: JS_KEYWORDS,
+		typescript: `${JS_KEYWORDS} abstract any as declare enum implements interface is keyof namespace never private protected public readonly type unknown`,
+		python:
+			'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield',
+		java: 'abstract boolean break byte case catch char class const continue default do double else enum extends false final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch this throw throws true try void while',
+		csharp: 'abstract as base bool break case catch char class const continue decimal default do double else enum false finally float for foreach if in int interface internal is namespace new null object out override private protected public readonly return static string struct switch this throw true try using var virtual void while',
+		c: 'auto break case char const continue default do double else enum extern float for goto if int long register return short signed sizeof static struct switch typedef union unsigned void volatile while',
+		cpp: 'auto bool break case catch char class const constexpr continue default delete do double else enum false float for if inline int long namespace new nullptr private protected public return short static struct switch template this throw true try typedef typename using virtual void while',
+		go: 'break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var nil true false',
+		rust: 'as async await break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while',
+		php: 'abstract and array as break case catch class const continue declare default do echo else elseif empty extends false final finally for foreach function global if implements include interface isset namespace new null or private protected public require return static switch throw trait true try use var while',
+		ruby: 'alias and begin break case class def defined do else elsif end ensure false for if in module next nil not or redo rescue retry return self super then true undef unless until when while yield',
+		shellscript: 'case do done elif else esac export fi for function if in local return select then until while',
+		sql: 'add all alter and as asc between by case create delete desc distinct drop else end exists from group having in index inner insert into is join left like limit not null on or order outer primary right select set table then union update values when where',
+	}
+	const LANGUAGE_ALIASES = {
+		javascriptreact: 'javascript',
+		typescriptreact: 'typescript',
+		jsonc: 'javascript',
+		json: 'javascript',
+	}
+	const HASH_COMMENT_LANGUAGES = [
+		'python',
+		'ruby',
+		'shellscript',
+		'yaml',
+		'perl',
+		'r',
+		'powershell',
+		'dockerfile',
+		'makefile',
+	]
+
+	let time = 0
+	let speed = 1
+	let intervalId
+	let lastTick = 0
+	let selectedFile = null
+	let renderedChange = null
+
+	/**
+	 * Escapes the HTML special characters of a text.
+	 */
+	function escapeHtml(text) {
+		return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+	}
+
+	/**
+	 * Highlights the code with a minimal tokenizer: comments, strings, numbers and keywords.
+	 */
+	function highlight(code, language) {
+		const normalizedLanguage = LANGUAGE_ALIASES[language] ?? language
+		const keywords = new Set((KEYWORDS[normalizedLanguage] ?? '').split(' '))
+		const comment = HASH_COMMENT_LANGUAGES.includes(normalizedLanguage)
+			? '#.*$'
+			: normalizedLanguage === 'html' || normalizedLanguage === 'xml'
+				? '<!--[\\s\\S]*?-->'
+				: '\\/\\/.*$|\\/\\*[\\s\\S]*?\\*\\/'
+		const tokenizer = new RegExp(
+			`(${comment})|("(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'|\`(?:\\\\.|[^\`\\\\])*\`)|(\\b\\d+(?:\\.\\d+)?\\b)|([A-Za-z_$][\\w$]*)`,
+			'gm'
+		)
+
+		let html = ''
+		let lastIndex = 0
+		for (const match of code.matchAll(tokenizer)) {
+			html += escapeHtml(code.slice(lastIndex, match.index))
+			const [token, commentToken, stringToken, numberToken] = match
+			let tokenClass = null
+			if (commentToken) {
+				tokenClass = 'comment'
+			} else if (stringToken) {
+				tokenClass = 'string'
+			} else if (numberToken) {
+				tokenClass = 'number'
+			} else if (keywords.has(token)) {
+				tokenClass = 'keyword'
+			}
+			// Tokens spanning more lines are split, so each line can be rendered on its own
+			html += tokenClass
+				? token
+						.split('\n')
+						.map(part => `<span class="${tokenClass}">${escapeHtml(part)}</span>`)
+						.join('\n')
+				: escapeHtml(token)
+			lastIndex = match.index + token.length
+		}
+		html += escapeHtml(code.slice(lastIndex))
+		return html
+	}
+
+	/**
+	 * Formats milliseconds as a mm:ss time.
+	 */
+	function formatTime(milliseconds) {
+		const seconds = Math.floor(milliseconds / 1000)
+		const hours = Math.floor(seconds / 3600)
+		const minutes = Math.floor((seconds % 3600) / 60)
+		const remainingSeconds = seconds % 60
+		const time = `${String(minutes).padStart(2, '0')}:${String(remainingSeconds).padStart(2, '0')}`
+		return hours > 0 ? `${String(hours).padStart(2, '0')}:${time}` : time
+	}
+
+	/**
+	 * Finds the index of the last change started at or before the given time.
+	 */
+	function findChangeIndex(currentTime) {
+		let low = 0
+		let high = changes.length - 1
+		let index = -1
+		while (low <= high) {
+			const middle = Math.floor((low + high) / 2)
+			if (changes[middle].startTime <= currentTime) {
+				index = middle
+				low = middle + 1
+			} else {
+				high = middle - 1
+			}
+		}
+		return index
+	}
+
+	/**
+	 * Finds the last change of a file, up to the given index.
+	 */
+	function findFileChange(file, index) {
+		for (let i = index; i >= 0; i--) {
+			if (changes[i].file === file) {
+				return changes[i]
+			}
+		}
+		return null
+	}
+
+	/**
+	 * Gets the line to scroll to: the selection, or the first line changed since the last render.
+	 */
+	function getFocusLine(change, previousChange) {
+		let offset = 0
+		if (change.selection) {
+			offset = change.selection.offset
+		} else if (previousChange && previousChange.file === change.file) {
+			while (
+				offset < change.text.length &&
+				offset < previousChange.text.length &&
+				change.text[offset] === previousChange.text[offset]
+			) {
+				offset++
+			}
+		} else {
+			return 0
+		}
+		return change.text.slice(0, offset).split('\n').length - 1
+	}
+
+	function renderTabs(activeFile) {
+		tabsElement.replaceChildren(
+			...files.map(file => {
+				const tab = document.createElement('button')
+				tab.className = file === activeFile ? 'tab active' : 'tab'
+				tab.textContent = file.split('/').pop()
+				tab.title = file
+				tab.addEventListener('click', () => {
+					// Clicking the followed file again goes back to following the recording
+					selectedFile = selectedFile === file ? null : file
+					render(true)
+				})
+				return tab
+			})
+		)
+	}
+
+	function renderCode(change) {
+		if (!change) {
+			gutterElement.textContent = ''
+			codeElement.innerHTML = ''
+			return
+		}
+		const lines = highlight(change.text, change.language).split('\n')
+		gutterElement.textContent = lines.map((_, i) => i + 1).join('\n')
+		codeElement.innerHTML = lines
+			.map(line => `<span class="line">${line || ' '}</span>`)
+			.join('\n')
+
+		const focusLine = getFocusLine(change, renderedChange)
+		const lineElement = codeElement.children[focusLine]
+		if (lineElement) {
+			lineElement.classList.add('focus')
+			const top = lineElement.offsetTop - editorElement.clientHeight / 2
+			if (
+				lineElement.offsetTop < editorElement.scrollTop ||
+				lineElement.offsetTop > editorElement.scrollTop + editorElement.clientHeight
+			) {
+				editorElement.scrollTop = Math.max(top, 0)
+			}
+		}
+	}
+
+	function render(force = false) {
+		const index = findChangeIndex(time)
+		const activeFile = selectedFile ?? changes[index]?.file ?? files[0]
+		const change = findFileChange(activeFile, index)
+		if (force || change !== renderedChange) {
+			renderTabs(activeFile)
+			renderCode(change)
+			renderedChange = change
+		}
+		timeline.value = String(time)
+		timeLabel.textContent = `${formatTime(time)} / ${formatTime(duration)}`
+	}
+
+	function tick() {
+		const now = Date.now()
+		time = Math.min(time + (now - lastTick) * speed, duration)
+		lastTick = now
+		if (time >= duration) {
+			pause()
+		}
+		render()
+	}
+
+	function play() {
+		if (time >= duration) {
+			time = 0
+		}
+		lastTick = Date.now()
+		intervalId = setInterval(tick, 50)
+		playButton.textContent = playButton.dataset.pause
+	}
+
+	function pause() {
+		clearInterval(intervalId)
+		intervalId = undefined
+		playButton.textContent = playButton.dataset.play
+	}
+
+	playButton.addEventListener('click', () => (intervalId ? pause() : play()))
+	speedSelect.addEventListener('change', () => {
+		speed = Number(speedSelect.value)
+	})
+	timeline.max = String(duration)
+	timeline.addEventListener('input', () => {
+		time = Number(timeline.value)
+		render()
+	})
+
+	render(true)
+})()
@@ -0,0 +1,53 @@
+const vscode = acquireVsCodeApi()
+
+const playButton = document.getElementById('play')
+const speedSelect = document.getElementById('speed')
+const timeline = document.getElementById('timeline')
+const timeLabel = document.getElementById('time')
+const fileLabel = document.getElementById('file')
+const terminalPanel = document.getElementById('terminal')
+const terminalCommand = document.getElementById('terminal-command')
+const terminalOutput = document.getElementById('terminal-output')
+
+let playing = false
+let seeking = false
+
+playButton.addEventListener('click', () => {
+	vscode.postMessage({ type: playing ? 'pause' : 'play' })
+})
+
+speedSelect.addEventListener('change', () => {
+	vscode.postMessage({ type: 'speed', speed: Number(speedSelect.value) })
+})
+
+timeline.addEventListener('input', () => {
+	seeking = true
+	vscode.postMessage({ type: 'seek', time: Number(timeline.value) })
+})
+
+timeline.addEventListener('change', () => {
+	seeking = false
+})
+
+window.addEventListener('message', event => {
+	const message = event.data
+	if (message.type !== 'state') {
+		return
+	}
+	playing = message.playing
+	playButton.textContent = playing ? playButton.dataset.pause : playButton.dataset.play
+	playButton.classList.toggle('start', !playing)
+	playButton.classList.toggle('stop', playing)
+	speedSelect.value = String(message.speed)
+	timeline.max = String(message.duration)
+	if (!seeking) {
+		timeline.value = String(message.time)
+	}
+	timeLabel.textContent = message.timeLabel
+	fileLabel.textContent = message.file
+	terminalPanel.hidden = !message.terminal
+	if (message.terminal) {
+		terminalCommand.textContent = `${message.terminal.name}> ${message.terminal.command}`
+		terminalOutput.textContent = message.terminal.output
+	}
+})
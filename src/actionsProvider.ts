@@ -1,8 +1,7 @@
 import * as vscode from 'vscode'
 import * as fs from 'node:fs'
-import * as path from 'node:path'
 import { commands } from './recording'
-import { getConfig } from './utilities'
+import { getConfig, getGitignoreEntry } from './utilities'
 
 export class ActionItem extends vscode.TreeItem {
 	constructor(
@@ -26,34 +25,38 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 
 	private _timer = 0
 	private _isRecording = false
+	private _isPaused = false
 	private _currentFile = ''
-	private _gitignoreWatcher: vscode.FileSystemWatcher | undefined
+	private _gitignoreWatchers: vscode.FileSystemWatcher[] = []
 
 	constructor() {
 		// Update timer every second when recording
 		setInterval(() => {
-			if (this._isRecording) {
+			if (this._isRecording && !this._isPaused) {
 				this._timer++
 				this.refresh()
 			}
 		}, 1000)
 
-		// Watch for .gitignore changes
-		this.setupGitignoreWatcher()
+		// Watch for .gitignore changes in each workspace folder
+		this.setupGitignoreWatchers()
+		vscode.workspace.onDidChangeWorkspaceFolders(() => this.setupGitignoreWatchers())
 	}
 
-	private setupGitignoreWatcher() {
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
-		if (workspaceFolder) {
-			this._gitignoreWatcher?.dispose()
-			this._gitignoreWatcher = vscode.workspace.createFileSystemWatcher(
+	private setupGitignoreWatchers() {
+		for (const watcher of this._gitignoreWatchers) {
+			watcher.dispose()
+		}
+		this._gitignoreWatchers = (vscode.workspace.workspaceFolders ?? []).map(workspaceFolder => {
+			const watcher = vscode.workspace.createFileSystemWatcher(
 				new vscode.RelativePattern(workspaceFolder, '.gitignore')
 			)
 
-			this._gitignoreWatcher.onDidCreate(() => this.refresh())
-			this._gitignoreWatcher.onDidChange(() => this.refresh())
-			this._gitignoreWatcher.onDidDelete(() => this.refresh())
-		}
+			watcher.onDidCreate(() => this.refresh())
+			watcher.onDidChange(() => this.refresh())
+			watcher.onDidDelete(() => this.refresh())
+			return watcher
+		})
 	}
 
 	refresh(): void {
@@ -69,10 +72,16 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 		if (!isRecording) {
 			this._timer = 0
 			this._currentFile = ''
+			this._isPaused = false
 		}
 		this.refresh()
 	}
 
+	setPausedState(isPaused: boolean): void {
+		this._isPaused = isPaused
+		this.refresh()
+	}
+
 	setCurrentFile(fileName: string): void {
 		this._currentFile = fileName
 		this.refresh()
@@ -88,31 +97,18 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 	}
 
 	private shouldShowGitignoreButton(): boolean {
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
-		if (!workspaceFolder) {
-			return false
-		}
-
-		const gitignorePath = path.join(workspaceFolder.uri.fsPath, '.gitignore')
-		const exportPath = getConfig().get<string>('export.exportPath')
-
-		if (!exportPath) {
+		// The .gitignore of the workspace folder of the active editor, or of the named folder
+		const gitignoreEntry = getGitignoreEntry()
+		if (!gitignoreEntry) {
 			return false
 		}
+		const { gitignorePath, relativePath } = gitignoreEntry
 
 		// If .gitignore doesn't exist, show the button
 		if (!fs.existsSync(gitignorePath)) {
 			return false
 		}
 
-		// Get the relative path from workspace folder
-		let relativePath = exportPath
-		if (exportPath.startsWith('${workspaceFolder}')) {
-			relativePath = exportPath.replace('${workspaceFolder}', '').replace(/\\/g, '/')
-		}
-		// Remove leading and trailing slashes
-		relativePath = relativePath.replace(/^\/+|\/+$/g, '')
-
 		// Check if the path is already in .gitignore
 		const content = fs.readFileSync(gitignorePath, 'utf8')
 		return !content.split('\n').some(line => line.trim() === relativePath)
@@ -137,10 +133,35 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 		)
 		items.push(recordButton)
 
+		// Pause/Resume button (only when recording)
+		if (this._isRecording) {
+			const pauseButton = new ActionItem(
+				this._isPaused ? 'Resume Recording' : 'Pause Recording',
+				vscode.TreeItemCollapsibleState.None,
+				{
+					command: this._isPaused ? commands.resumeRecording : commands.pauseRecording,
+					title: this._isPaused ? 'Resume Recording' : 'Pause Recording',
+				},
+				this._isPaused ? 'debug-continue' : 'debug-pause'
+			)
+			items.push(pauseButton)
+
+			const markerButton = new ActionItem(
+				'Add Chapter Marker',
+				vscode.TreeItemCollapsibleState.None,
+				{
+					command: commands.addMarker,
+					title: 'Add Chapter Marker',
+				},
+				'bookmark'
+			)
+			items.push(markerButton)
+		}
+
 		// Timer (only when recording or when showTimer is enabled)
 		if (this._isRecording || getConfig().get('appearance.showTimer')) {
 			const timer = new ActionItem(
-				this.formatTime(this._timer),
+				this._isPaused ? `${this.formatTime(this._timer)} (paused)` : this.formatTime(this._timer),
 				vscode.TreeItemCollapsibleState.None,
 				undefined,
 				'watch'
@@ -177,6 +198,8 @@ export class ActionsProvider implements vscode.TreeDataProvider<ActionItem> {
 	}
 
 	dispose() {
-		this._gitignoreWatcher?.dispose()
+		for (const watcher of this._gitignoreWatchers) {
+			watcher.dispose()
+		}
 	}
 }
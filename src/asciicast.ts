@@ -0,0 +1,140 @@
+import type { Change } from './types'
+
+/**
+ * Maximum size of the terminal the recording is rendered to.
+ */
+const MAX_WIDTH = 160
+const MAX_HEIGHT = 50
+
+const TAB_SPACES = '    '
+const CLEAR_SCREEN = '\x1b[2J\x1b[H'
+const INVERSE = '\x1b[7m'
+const RESET = '\x1b[0m'
+
+/**
+ * Splits a text into lines, expanding tabs so the terminal columns match the characters.
+ * @param text - The text to split.
+ * @returns The lines of the text.
+ */
+function getLines(text: string): string[] {
+	return text.replaceAll('\t', TAB_SPACES).split(/\r?\n/)
+}
+
+/**
+ * Gets the line and column of an offset in a text.
+ * @param text - The text.
+ * @param offset - The offset in the text.
+ * @returns The zero-based line and column.
+ */
+function getPosition(text: string, offset: number): { line: number; column: number } {
+	const lines = getLines(text.slice(0, offset))
+	return { line: lines.length - 1, column: lines[lines.length - 1].length }
+}
+
+/**
+ * Finds the offset where the text of a change differs from the previous one of the same file,
+ * or the selection offset if the change is a cursor movement.
+ * @param change - The change.
+ * @param previousText - The previous text of the same file.
+ * @returns The offset to keep visible in the terminal.
+ */
+function getFocusOffset(change: Change, previousText: string | undefined): number {
+	if (change.selection) {
+		return change.selection.offset
+	}
+	if (previousText === undefined) {
+		return 0
+	}
+	let offset = 0
+	while (
+		offset < change.text.length &&
+		offset < previousText.length &&
+		change.text[offset] === previousText[offset]
+	) {
+		offset++
+	}
+	return offset
+}
+
+/**
+ * Builds the header shown on top of each frame.
+ * @param change - The change rendered in the frame.
+ * @returns The header text.
+ */
+function getHeader(change: Change): string {
+	return change.language ? ` ${change.file} (${change.language}) ` : ` ${change.file} `
+}
+
+/**
+ * Renders a change as a terminal frame, showing the part of the text around the focused offset.
+ * @param change - The change to render.
+ * @param focusOffset - The offset to keep visible.
+ * @param width - The terminal width.
+ * @param height - The terminal height.
+ * @returns The frame, as terminal output.
+ */
+function renderFrame(change: Change, focusOffset: number, width: number, height: number): string {
+	const lines = getLines(change.text)
+	const focus = getPosition(change.text, focusOffset)
+	const viewportHeight = height - 1
+	const firstLine = Math.max(
+		0,
+		Math.min(focus.line - Math.floor(viewportHeight / 2), lines.length - viewportHeight)
+	)
+	const visibleLines = lines
+		.slice(firstLine, firstLine + viewportHeight)
+		.map(line => line.slice(0, width))
+
+	let frame = `${CLEAR_SCREEN}${INVERSE}${getHeader(change).slice(0, width).padEnd(width)}${RESET}\r\n`
+	frame += visibleLines.join('\r\n')
+	// Move the cursor to the focused position, below the header
+	frame += `\x1b[${focus.line - firstLine + 2};${Math.min(focus.column, width - 1) + 1}H`
+	return frame
+}
+
+/**
+ * Builds an asciicast v2 file from the processed changes, rendering the text of each change
+ * as a terminal frame.
+ * @see https://docs.asciinema.org/manual/asciicast/v2/
+ * @param processedChanges - The processed changes.
+ * @param title - The title of the recording.
+ * @returns The content of the asciicast file.
+ */
+export function buildAsciicastFile(processedChanges: Change[], title: string): string {
+	let width = 0
+	let height = 0
+	for (const change of processedChanges) {
+		const lines = getLines(change.text)
+		width = lines.reduce(
+			(max, line) => Math.max(max, line.length),
+			Math.max(width, getHeader(change).length)
+		)
+		height = Math.max(height, lines.length + 1)
+	}
+	width = Math.min(Math.max(width, 1), MAX_WIDTH)
+	height = Math.min(Math.max(height, 2), MAX_HEIGHT)
+
+	const header = { version: 2, width, height, title }
+	const events: string[] = [JSON.stringify(header)]
+	const snapshots = new Map<string, string>()
+
+	for (const change of processedChanges) {
+		const focusOffset = getFocusOffset(change, snapshots.get(change.file))
+		snapshots.set(change.file, change.text)
+		events.push(
+			JSON.stringify([
+				change.startTime / 1000,
+				'o',
+				renderFrame(change, focusOffset, width, height),
+			])
+		)
+	}
+
+	// Keep the last frame on screen until the end of the recording
+	const lastChange = processedChanges[processedChanges.length - 1]
+	if (lastChange && lastChange.endTime > lastChange.startTime) {
+		events.push(JSON.stringify([lastChange.endTime / 1000, 'o', '']))
+	}
+
+	return `${events.join('\n')}\n`
+}
@@ -0,0 +1,210 @@
+import * as fs from 'node:fs'
+import { type CSVRow, ChangeType } from './types'
+
+/**
+ * Version of the source CSV format, written in the first row of the file.
+ * Files without the version row were written by the legacy writer (version 1).
+ */
+export const CSV_FORMAT_VERSION = 2
+const CSV_FORMAT_MARKER = 'vs-code-recorder'
+const LEGACY_CSV_FORMAT_VERSION = 1
+
+export const CSV_COLUMNS = [
+	'Sequence',
+	'Time',
+	'File',
+	'RangeOffset',
+	'RangeLength',
+	'Text',
+	'Language',
+	'Type',
+]
+
+/**
+ * Escapes a field following RFC 4180: fields containing commas, quotes or line breaks
+ * are enclosed in double quotes, and double quotes are doubled.
+ * @param value - The value of the field.
+ * @param alwaysQuote - Whether to enclose the field in double quotes even if not needed.
+ * @returns The escaped field.
+ */
+export function escapeCsvField(value: string | number, alwaysQuote = false): string {
+	const field = String(value)
+	if (alwaysQuote || /[",\r\n]/.test(field)) {
+		return `"${field.replace(/"/g, '""')}"`
+	}
+	return field
+}
+
+/**
+ * Builds the header of a source CSV file: the format version row and the column names row.
+ * @returns The header rows.
+ */
+export function buildCsvHeader(): string {
+	return `${CSV_FORMAT_MARKER},${CSV_FORMAT_VERSION}\n${CSV_COLUMNS.join(',')}\n`
+}
+
+/**
+ * Builds a row of a source CSV file. The file and text are always quoted.
+ * The terminal rows store the terminal in the File column and the event in the Language column.
+ * @param row - The values of the row.
+ * @returns The CSV row, terminated by a line break.
+ */
+export function buildCsvLine({
+	sequence,
+	time,
+	file,
+	rangeOffset,
+	rangeLength,
+	text,
+	language,
+	type,
+	terminal,
+}: CSVRow): string {
+	return `${[
+		escapeCsvField(sequence),
+		escapeCsvField(time),
+		escapeCsvField(terminal ? terminal.name : file, true),
+		escapeCsvField(rangeOffset),
+		escapeCsvField(rangeLength),
+		escapeCsvField(text, true),
+		escapeCsvField(terminal ? terminal.event : language),
+		escapeCsvField(type),
+	].join(',')}\n`
+}
+
+enum ParserState {
+	FIELD_START = 0,
+	UNQUOTED = 1,
+	QUOTED = 2,
+	QUOTE_IN_QUOTED = 3,
+}
+
+/**
+ * Reads the records of a CSV file as a stream, following RFC 4180.
+ * Quoted fields can contain commas, double quotes and line breaks.
+ * Empty lines are skipped, and a record cut by an unterminated quote at the end of the file,
+ * as written by an interrupted recording, is dropped.
+ * @param filePath - The path to the CSV file.
+ * @returns The records, as arrays of fields.
+ */
+export async function* readCsvRecords(filePath: string): AsyncGenerator<string[]> {
+	let state = ParserState.FIELD_START
+	let record: string[] = []
+	let field = ''
+
+	const endField = () => {
+		record.push(field)
+		field = ''
+		state = ParserState.FIELD_START
+	}
+
+	for await (const chunk of fs.createReadStream(filePath, { encoding: 'utf8' })) {
+		const text = chunk as string
+		const records: string[][] = []
+		const endRecord = () => {
+			endField()
+			records.push(record)
+			record = []
+		}
+
+		let i = 0
+		while (i < text.length) {
+			if (state === ParserState.QUOTED) {
+				const quoteIndex = text.indexOf('"', i)
+				if (quoteIndex === -1) {
+					field += text.slice(i)
+					break
+				}
+				field += text.slice(i, quoteIndex)
+				state = ParserState.QUOTE_IN_QUOTED
+				i = quoteIndex + 1
+				continue
+			}
+
+			const char = text[i]
+			i++
+			if (char === '\r') {
+				// Line breaks inside records are always quoted, so carriage returns are CRLF endings
+				continue
+			}
+			if (state === ParserState.QUOTE_IN_QUOTED && char === '"') {
+				field += '"'
+				state = ParserState.QUOTED
+			} else if (char === ',') {
+				endField()
+			} else if (char === '\n') {
+				if (state !== ParserState.FIELD_START || record.length > 0) {
+					endRecord()
+				}
+			} else if (state === ParserState.FIELD_START && char === '"') {
+				state = ParserState.QUOTED
+			} else {
+				// Characters after a closing quote are kept, as lenient readers do
+				field += char
+				state = ParserState.UNQUOTED
+			}
+		}
+
+		yield* records
+	}
+
+	if (state !== ParserState.QUOTED && (state !== ParserState.FIELD_START || record.length > 0)) {
+		endField()
+		yield record
+	}
+}
+
+/**
+ * Unescapes the text of a row written by the legacy writer, which escaped line breaks and tabs
+ * with backslashes.
+ * @param text - The text to unescape.
+ * @returns The unescaped text.
+ */
+function unescapeLegacyText(text: string): string {
+	return text
+		.replace(/\\r\\n/g, '\r\n')
+		.replace(/\\n/g, '\n')
+		.replace(/\\r/g, '\r')
+		.replace(/\\t/g, '\t')
+}
+
+/**
+ * Reads the rows of a source CSV file as a stream, migrating the rows of legacy files.
+ * The header rows and the rows without a valid sequence number are skipped.
+ * The terminal and the event of the terminal rows are read apart from the file and language.
+ * @param filePath - The path to the source CSV file.
+ * @returns The rows of the file.
+ */
+export async function* readCsvFile(filePath: string): AsyncGenerator<CSVRow> {
+	let version: number | undefined
+
+	for await (const fields of readCsvRecords(filePath)) {
+		if (version === undefined) {
+			version =
+				fields[0] === CSV_FORMAT_MARKER ? Number.parseInt(fields[1]) : LEGACY_CSV_FORMAT_VERSION
+			if (Number.isNaN(version) || version > CSV_FORMAT_VERSION) {
+				throw new Error(`Unsupported source CSV version: ${fields[1]}`)
+			}
+		}
+
+		const sequence = Number.parseInt(fields[0])
+		if (Number.isNaN(sequence) || fields.length < CSV_COLUMNS.length) {
+			continue
+		}
+
+		const text = fields[5]
+		const type = fields[7]
+		const isTerminalRow = type === ChangeType.TERMINAL
+		yield {
+			sequence,
+			time: Number.parseInt(fields[1]),
+			file: isTerminalRow ? '' : fields[2],
+			rangeOffset: Number.parseInt(fields[3]),
+			rangeLength: Number.parseInt(fields[4]),
+			text: version === LEGACY_CSV_FORMAT_VERSION ? unescapeLegacyText(text) : text,
+			language: isTerminalRow ? '' : fields[6],
+			type,
+			terminal: isTerminalRow ? { name: fields[2], event: fields[6] } : undefined,
+		}
+	}
+}
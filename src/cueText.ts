@@ -0,0 +1,148 @@
+import * as vscode from 'vscode'
+import type { Change } from './types'
+import { getDelta } from './jsonDiff'
+
+/**
+ * Maximum number of characters of the typed text shown in a summary.
+ */
+const MAX_SNIPPET_LENGTH = 40
+
+/**
+ * Templates of the SRT cue presets. The `json` preset is not a template:
+ * it writes the full change as JSON, as read by the VS Code Recorder Player.
+ */
+export const CUE_PRESETS: Record<string, string> = {
+	fullText: '{text}',
+	diff: '{file}:{line} {summary}',
+	currentLine: '{file}:{line} {lineText}',
+	fileName: '{file}',
+}
+
+/**
+ * Default of the custom cue template setting.
+ */
+export const DEFAULT_CUE_TEMPLATE = '{file}:{line} {insertedText}'
+
+/**
+ * The text replaced by a change, compared to the previous text of its file.
+ */
+interface TextEdit {
+	offset: number
+	insertedText: string
+	deletedText: string
+}
+
+/**
+ * Finds the text replaced by a change.
+ * @param change - The change.
+ * @param previousText - The previous text of the same file.
+ * @returns The edit, or `undefined` if the text did not change.
+ */
+function getTextEdit(change: Change, previousText: string | undefined): TextEdit | undefined {
+	if (previousText === undefined || change.text === previousText) {
+		return
+	}
+	const { rangeOffset, rangeLength, text } = getDelta(previousText, change.text)
+	return {
+		offset: rangeOffset,
+		insertedText: text,
+		deletedText: previousText.slice(rangeOffset, rangeOffset + rangeLength),
+	}
+}
+
+/**
+ * Shortens a typed text to a single line that fits in a cue.
+ * @param text - The typed text.
+ * @returns The quoted snippet, with the line breaks and tabs made visible.
+ */
+function formatSnippet(text: string): string {
+	const snippet = text.replace(/\r?\n/g, '⏎').replace(/\t/g, '→')
+	return `"${
+		snippet.length > MAX_SNIPPET_LENGTH ? `${snippet.slice(0, MAX_SNIPPET_LENGTH)}…` : snippet
+	}"`
+}
+
+/**
+ * Summarizes what a change did to the text of its file, compared to the previous text.
+ * @param change - The change.
+ * @param previousText - The previous text of the same file.
+ * @returns A short, human-readable summary.
+ */
+export function getChangeSummary(change: Change, previousText: string | undefined): string {
+	if (change.paused) {
+		return vscode.l10n.t('Paused')
+	}
+	if (change.idle) {
+		return vscode.l10n.t('Idle')
+	}
+	if (change.selection) {
+		if (change.selection.length > 0) {
+			return vscode.l10n.t('Selected {count} characters', { count: change.selection.length })
+		}
+		const { line, column } = getPosition(change.text, change.selection.offset)
+		return vscode.l10n.t('Cursor at line {line}, column {column}', { line, column })
+	}
+	if (previousText === undefined) {
+		return vscode.l10n.t('Opened the file')
+	}
+	const edit = getTextEdit(change, previousText)
+	if (!edit) {
+		return vscode.l10n.t('Switched to the file')
+	}
+	if (edit.insertedText && edit.deletedText) {
+		return vscode.l10n.t('Replaced {count} characters with {text}', {
+			count: edit.deletedText.length,
+			text: formatSnippet(edit.insertedText),
+		})
+	}
+	if (edit.insertedText) {
+		return vscode.l10n.t('Typed {text}', { text: formatSnippet(edit.insertedText) })
+	}
+	return vscode.l10n.t('Deleted {count} characters', { count: edit.deletedText.length })
+}
+
+/**
+ * Gets the line and column of an offset in a text.
+ * @param text - The text.
+ * @param offset - The offset in the text.
+ * @returns The one-based line and column.
+ */
+function getPosition(text: string, offset: number): { line: number; column: number } {
+	const lines = text.slice(0, offset).split('\n')
+	return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+}
+
+/**
+ * Renders a cue template for a change, replacing each `{placeholder}` with its value:
+ * `sequence`, `file`, `language`, `line`, `column`, `text`, `lineText`, `insertedText`,
+ * `deletedText` and `summary`. Unknown placeholders are kept as they are.
+ * The line and column are those of the edit, or of the cursor for selection changes.
+ * @param template - The cue template.
+ * @param change - The change.
+ * @param previousText - The previous text of the same file.
+ * @returns The text of the cue.
+ */
+export function renderCueTemplate(
+	template: string,
+	change: Change,
+	previousText: string | undefined
+): string {
+	const edit = getTextEdit(change, previousText)
+	const offset = change.selection?.offset ?? edit?.offset ?? 0
+	const { line, column } = getPosition(change.text, offset)
+	const values: Record<string, string> = {
+		sequence: String(change.sequence),
+		file: change.file,
+		language: change.language,
+		line: String(line),
+		column: String(column),
+		text: change.text,
+		lineText: change.text.split(/\r?\n/)[line - 1] ?? '',
+		insertedText: edit?.insertedText ?? '',
+		deletedText: edit?.deletedText ?? '',
+		summary: getChangeSummary(change, previousText),
+	}
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		Object.hasOwn(values, name) ? values[name] : placeholder
+	)
+}
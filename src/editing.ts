@@ -0,0 +1,309 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Change, ProcessedRecording } from './types'
+import { finalizeRecording } from './processing'
+import { writeEditedManifest } from './manifest'
+import { readRecording, resolveRecordingSource } from './reexport'
+import { getAvailableSessionPath } from './sessions'
+import { formatDisplayTime, getConfig, logToOutput } from './utilities'
+
+/**
+ * An interval of the timeline of a recording in milliseconds, or of sequence numbers.
+ */
+export interface Interval {
+	start: number
+	end: number
+}
+
+/**
+ * Parses a time written as seconds, `minutes:seconds` or `hours:minutes:seconds`,
+ * where the seconds can have up to three decimals.
+ * @param text - The time to parse.
+ * @returns The time in milliseconds, or `undefined` if the text is not a valid time.
+ */
+export function parseTime(text: string): number | undefined {
+	const parts = text.trim().split(':')
+	const seconds = parts.pop() ?? ''
+	if (
+		parts.length > 2 ||
+		!/^\d+(?:\.\d{1,3})?$/.test(seconds) ||
+		!parts.every(part => /^\d+$/.test(part))
+	) {
+		return
+	}
+	const minutes = parts.reduce((total, part) => total * 60 + Number.parseInt(part), 0)
+	return Math.round((minutes * 60 + Number.parseFloat(seconds)) * 1000)
+}
+
+/**
+ * Parses a comma-separated list of ranges, like `1:00-1:30, 5:00-5:10`.
+ * @param text - The ranges to parse.
+ * @param parseValue - The parser of the start and the end of each range.
+ * @returns The ranges, or `undefined` if a range is not valid or does not end after its start.
+ */
+export function parseRanges(
+	text: string,
+	parseValue: (value: string) => number | undefined
+): Interval[] | undefined {
+	const ranges: Interval[] = []
+	for (const rangeText of text.split(',')) {
+		const [startText, endText, ...rest] = rangeText.split('-')
+		const start = parseValue(startText ?? '')
+		const end = parseValue(endText ?? '')
+		if (rest.length > 0 || start === undefined || end === undefined || end <= start) {
+			return
+		}
+		ranges.push({ start, end })
+	}
+	return ranges
+}
+
+/**
+ * Parses a sequence number.
+ * @param text - The sequence number to parse.
+ * @returns The sequence number, or `undefined` if the text is not a positive integer.
+ */
+function parseSequence(text: string): number | undefined {
+	return /^\s*\d+\s*$/.test(text) ? Number.parseInt(text) : undefined
+}
+
+/**
+ * Converts ranges of sequence numbers to the intervals of the timeline taken by those changes.
+ * Both ends of each range are included.
+ * @param changes - The changes, sorted by start time.
+ * @param sequenceRanges - The ranges of sequence numbers.
+ * @returns The intervals of the timeline.
+ */
+export function getSequenceIntervals(changes: Change[], sequenceRanges: Interval[]): Interval[] {
+	return sequenceRanges.flatMap(({ start, end }) => {
+		const rangeChanges = changes.filter(
+			change => change.sequence >= start && change.sequence <= end
+		)
+		if (rangeChanges.length === 0) {
+			return []
+		}
+		return [
+			{
+				start: rangeChanges[0].startTime,
+				end: rangeChanges[rangeChanges.length - 1].endTime,
+			},
+		]
+	})
+}
+
+/**
+ * Sorts the intervals, limits them to the duration of the recording and merges the overlapping ones.
+ * @param intervals - The intervals.
+ * @param duration - The duration of the recording.
+ * @returns The sorted, non-overlapping intervals.
+ */
+function normalizeIntervals(intervals: Interval[], duration: number): Interval[] {
+	const sortedIntervals = intervals
+		.map(({ start, end }) => ({ start: Math.max(start, 0), end: Math.min(end, duration) }))
+		.filter(({ start, end }) => end > start)
+		.sort((a, b) => a.start - b.start)
+
+	const merged: Interval[] = []
+	for (const interval of sortedIntervals) {
+		const last = merged[merged.length - 1]
+		if (last && interval.start <= last.end) {
+			last.end = Math.max(last.end, interval.end)
+		} else {
+			merged.push({ ...interval })
+		}
+	}
+	return merged
+}
+
+/**
+ * Finds the cut containing a time.
+ * @param time - The time.
+ * @param cuts - The sorted, non-overlapping cuts.
+ * @returns The index of the cut, or -1 if the time is not cut.
+ */
+function findCut(time: number, cuts: Interval[]): number {
+	return cuts.findIndex(cut => time >= cut.start && time < cut.end)
+}
+
+/**
+ * Moves a time of the original timeline to the edited one: the cut time before it is removed,
+ * and a time inside a cut is moved to the start of the cut.
+ * @param time - The time in the original timeline.
+ * @param cuts - The sorted, non-overlapping cuts.
+ * @returns The time in the edited timeline.
+ */
+function rebaseTime(time: number, cuts: Interval[]): number {
+	let removedTime = 0
+	for (const cut of cuts) {
+		if (time < cut.start) {
+			break
+		}
+		if (time < cut.end) {
+			return cut.start - removedTime
+		}
+		removedTime += cut.end - cut.start
+	}
+	return time - removedTime
+}
+
+/**
+ * Removes intervals from the timeline of a recording. The changes, terminal commands and chapters
+ * started in a cut are removed, the following ones are moved back and all of them are renumbered.
+ * The last change of a cut is kept at the start of the cut, when it is still shown after the cut,
+ * so the text shown after the cut is the one the following changes were made on.
+ * @param processedRecording - The recording to edit.
+ * @param intervals - The intervals of the timeline to remove.
+ * @returns The edited recording.
+ */
+export function cutRecording(
+	{ changes, terminalChanges, chapters }: ProcessedRecording,
+	intervals: Interval[]
+): ProcessedRecording {
+	const duration = [...changes, ...terminalChanges].reduce(
+		(max, change) => Math.max(max, change.endTime),
+		0
+	)
+	const cuts = normalizeIntervals(intervals, duration)
+
+	const keptChanges = changes.filter((change, index) => {
+		const cut = findCut(change.startTime, cuts)
+		if (cut === -1) {
+			return true
+		}
+		// Nothing follows a cut at the end of the recording, so none of its changes are kept,
+		// and the last change is not needed when the next one starts right at the end of the cut
+		const nextChange = changes[index + 1]
+		return (
+			nextChange !== undefined &&
+			findCut(nextChange.startTime, cuts) !== cut &&
+			nextChange.startTime > cuts[cut].end
+		)
+	})
+
+	return {
+		changes: keptChanges.map((change, index) => ({
+			...change,
+			sequence: index + 1,
+			startTime: rebaseTime(change.startTime, cuts),
+			endTime: rebaseTime(change.endTime, cuts),
+		})),
+		terminalChanges: terminalChanges
+			.filter(terminalChange => findCut(terminalChange.startTime, cuts) === -1)
+			.map((terminalChange, index) => ({
+				...terminalChange,
+				sequence: index + 1,
+				startTime: rebaseTime(terminalChange.startTime, cuts),
+				endTime: rebaseTime(terminalChange.endTime, cuts),
+			})),
+		chapters: chapters
+			.map(chapter => ({
+				...chapter,
+				startTime: rebaseTime(chapter.startTime, cuts),
+				endTime: rebaseTime(chapter.endTime, cuts),
+			}))
+			// The chapters entirely cut are removed
+			.filter(chapter => chapter.endTime > chapter.startTime)
+			.map((chapter, index) => ({ ...chapter, sequence: index + 1 })),
+	}
+}
+
+/**
+ * Asks the user for the intervals of the recording to remove.
+ * @param processedRecording - The recording to edit.
+ * @returns The intervals, or `undefined` if the user cancelled.
+ */
+async function pickCutIntervals(
+	processedRecording: ProcessedRecording
+): Promise<Interval[] | undefined> {
+	const { changes } = processedRecording
+	const duration = changes.reduce((max, change) => Math.max(max, change.endTime), 0)
+	const durationLabel = formatDisplayTime(Math.floor(duration / 1000))
+	const operations = [
+		{
+			label: vscode.l10n.t('Trim'),
+			detail: vscode.l10n.t('Keep only the part between a start and an end time'),
+			prompt: vscode.l10n.t('Enter the start and end times to keep, like 0:05-12:30'),
+			parse: (text: string) => {
+				const ranges = parseRanges(text, parseTime)
+				if (ranges?.length !== 1) {
+					return
+				}
+				return [
+					{ start: 0, end: ranges[0].start },
+					{ start: ranges[0].end, end: Number.POSITIVE_INFINITY },
+				]
+			},
+		},
+		{
+			label: vscode.l10n.t('Cut Time Intervals'),
+			detail: vscode.l10n.t('Remove one or more intervals of time'),
+			prompt: vscode.l10n.t('Enter the intervals to remove, like 1:00-1:30, 5:00-5:10'),
+			parse: (text: string) => parseRanges(text, parseTime),
+		},
+		{
+			label: vscode.l10n.t('Cut Changes'),
+			detail: vscode.l10n.t('Remove one or more ranges of changes by sequence number'),
+			prompt: vscode.l10n.t(
+				'Enter the sequence numbers of the changes to remove, like 10-25, 40-42, from 1 to {count}',
+				{ count: changes.length }
+			),
+			parse: (text: string) => {
+				const sequenceRanges = parseRanges(text, parseSequence)
+				return sequenceRanges && getSequenceIntervals(changes, sequenceRanges)
+			},
+		},
+	]
+
+	const operation = await vscode.window.showQuickPick(operations, {
+		title: vscode.l10n.t('Edit Recording ({duration})', { duration: durationLabel }),
+	})
+	if (!operation) {
+		return
+	}
+	const input = await vscode.window.showInputBox({
+		title: operation.label,
+		prompt: operation.prompt,
+		validateInput: text =>
+			operation.parse(text)?.length ? undefined : vscode.l10n.t('Invalid ranges'),
+	})
+	return input === undefined ? undefined : operation.parse(input)
+}
+
+/**
+ * Edits the timeline of a recording and writes the result to a new session folder,
+ * with the export formats of the settings. The JSON export is always written,
+ * as the edited session has no source CSV file to export it again from.
+ * @param sessionPath - The path to the session folder.
+ * @returns The path to the new session folder, or `undefined` if nothing was written.
+ */
+export async function editRecording(sessionPath: string): Promise<string | undefined> {
+	const sourcePath = resolveRecordingSource(sessionPath)
+	if (!sourcePath) {
+		return
+	}
+
+	const processedRecording = await readRecording(sessionPath, sourcePath)
+	const intervals = await pickCutIntervals(processedRecording)
+	if (!intervals) {
+		return
+	}
+
+	const editedRecording = cutRecording(processedRecording, intervals)
+	const editedSessionPath = getAvailableSessionPath(sessionPath, '-edited')
+	await fs.promises.mkdir(editedSessionPath, { recursive: true })
+	await writeEditedManifest(
+		editedSessionPath,
+		sessionPath,
+		editedRecording.changes.reduce((max, change) => Math.max(max, change.endTime), 0)
+	)
+	const exportFormats = getConfig().get<string[]>('export.exportFormats', [])
+	await finalizeRecording(editedSessionPath, editedRecording, [
+		...new Set(['JSON', ...exportFormats]),
+	])
+	logToOutput(
+		vscode.l10n.t('Recording edited: {name}', { name: path.basename(editedSessionPath) }),
+		'success'
+	)
+	return editedSessionPath
+}
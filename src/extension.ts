@@ -1,24 +1,47 @@
 import * as vscode from 'vscode'
-import { getExportPath, logToOutput, outputChannel, addToGitignore } from './utilities'
+import {
+	getExportPath,
+	logToOutput,
+	outputChannel,
+	addToGitignore,
+	notificationWithProgress,
+	resolveExportPaths,
+} from './utilities'
 import {
 	updateStatusBarItem,
 	startRecording,
 	stopRecording,
-	isCurrentFileExported,
+	pauseRecording,
+	resumeRecording,
+	addMarker,
+	isDocumentIgnored,
 	commands,
 	recording,
 	addToFileQueue,
 	buildCsvRow,
 	appendToFile,
+	flushPendingLine,
 } from './recording'
 import { ChangeType } from './types'
-import { RecordFilesProvider } from './recordFilesProvider'
+import {
+	RecordFilesProvider,
+	pickRecordFilesGrouping,
+	pickRecordFilesSorting,
+} from './recordFilesProvider'
 import type { RecordFile } from './recordFilesProvider'
 import { ActionsProvider } from './actionsProvider'
-import * as fs from 'node:fs'
+import { REPLAY_SCHEME, replayContentProvider, replayRecording } from './replay'
+import { processSourceCsv, recoverUnfinishedRecordings } from './recovery'
+import { reexportRecording } from './reexport'
+import { editRecording } from './editing'
+import { writeRecordingStatistics } from './statistics'
+import { duplicateSessions, moveSessions, renameSessions, setPinned } from './sessions'
+import { deleteWithUndo, emptyTrashFolder } from './trash'
+import { applyRetentionPolicy, previewRetentionPolicy } from './retention'
 import * as path from 'node:path'
 
 export let statusBarItem: vscode.StatusBarItem
+export let pauseStatusBarItem: vscode.StatusBarItem
 export let extContext: vscode.ExtensionContext
 export let actionsProvider: ActionsProvider
 
@@ -30,38 +53,56 @@ function onConfigurationChange(event: vscode.ConfigurationChangeEvent) {
 }
 
 /**
- * Gets the full path for a file or folder
+ * Gets the export path a tree item was listed from
+ * @param itemPath - The path to the file or folder of the tree item
  * @param item - The tree item representing the file or folder
- * @param exportPath - The base export path
- * @returns The full path to the file or folder
+ * @returns The export path
  */
-function getFullPath(item: RecordFile, exportPath: string): string {
-	// If the item has a parent path (file inside a folder), construct the full path
-	if (item.parentPath) {
-		return path.join(exportPath, item.parentPath, item.label)
-	}
-	// Otherwise, it's a root item
-	return path.join(exportPath, item.label)
+function getListedExportPath(itemPath: string, item: RecordFile): string {
+	// The files inside a folder are one level deeper than the root items
+	return item.parentPath ? path.dirname(path.dirname(itemPath)) : path.dirname(itemPath)
 }
 
 /**
- * Deletes a file or folder recursively
- * @param filePath - The path to the file or folder to delete
+ * Groups the paths of tree items by the export path they were listed from
+ * @param items - The tree items
+ * @returns The paths to the files and folders of each export path
  */
-async function deleteFileOrFolder(filePath: string): Promise<void> {
-	try {
-		const stat = fs.statSync(filePath)
-		if (stat.isDirectory()) {
-			// Delete directory and its contents recursively
-			fs.rmSync(filePath, { recursive: true, force: true })
-		} else {
-			// Delete single file
-			fs.unlinkSync(filePath)
+function groupItemPathsByExportPath(items: RecordFile[]): Map<string, string[]> {
+	const itemPathsByExportPath = new Map<string, string[]>()
+	for (const item of items) {
+		if (item.itemPath) {
+			const exportPath = getListedExportPath(item.itemPath, item)
+			itemPathsByExportPath.set(exportPath, [
+				...(itemPathsByExportPath.get(exportPath) ?? []),
+				item.itemPath,
+			])
 		}
-	} catch (err) {
-		console.error('Error deleting file or folder:', err)
-		throw err
 	}
+	return itemPathsByExportPath
+}
+
+/**
+ * Gets the paths of tree items, resolved when they were listed
+ * @param items - The tree items
+ * @returns The paths to the files and folders
+ */
+function getItemPaths(items: RecordFile[]): string[] {
+	return items.flatMap(item => (item.itemPath ? [item.itemPath] : []))
+}
+
+/**
+ * Gets the items a command of the tree applies to: the selected items when the command is run
+ * on one of them, otherwise the item the command is run on.
+ * @param item - The tree item the command is run on
+ * @param selectedItems - The selected tree items, when several are selected
+ * @returns The tree items, without the chapters and the groups
+ */
+function getSelectedItems(item: RecordFile, selectedItems?: RecordFile[]): RecordFile[] {
+	const items = selectedItems?.includes(item) ? selectedItems : [item]
+	return items.filter(
+		selectedItem => selectedItem.contextValue !== 'chapter' && selectedItem.contextValue !== 'group'
+	)
 }
 
 export function activate(context: vscode.ExtensionContext): void {
@@ -71,63 +112,341 @@ export function activate(context: vscode.ExtensionContext): void {
 
 	// Register Record Files Provider
 	const recordFilesProvider = new RecordFilesProvider()
-	context.subscriptions.push(
-		vscode.window.registerTreeDataProvider('recordFiles', recordFilesProvider)
-	)
+	const recordFilesView = vscode.window.createTreeView('recordFiles', {
+		treeDataProvider: recordFilesProvider,
+		canSelectMany: true,
+	})
+	context.subscriptions.push(recordFilesProvider, recordFilesView)
 
 	// Register Actions Provider
 	actionsProvider = new ActionsProvider()
 	context.subscriptions.push(vscode.window.registerTreeDataProvider('actions', actionsProvider))
 
-	// Register refresh command
+	/**
+	 * Filters the recording folders, showing the filter text above them.
+	 * @param filterText - The filter text, empty to show all the recording folders.
+	 */
+	const setRecordFilesFilter = (filterText: string) => {
+		recordFilesProvider.filterText = filterText
+		recordFilesView.message = filterText
+			? vscode.l10n.t('Filtered by "{text}"', { text: filterText })
+			: undefined
+		vscode.commands.executeCommand(
+			'setContext',
+			'vs-code-recorder.recordFilesFiltered',
+			!!filterText
+		)
+		recordFilesProvider.refresh()
+	}
+
+	// Register filter, group and sort commands
 	context.subscriptions.push(
-		vscode.commands.registerCommand('vs-code-recorder.refreshRecordFiles', () => {
-			recordFilesProvider.refresh()
-		})
+		vscode.commands.registerCommand('vs-code-recorder.filterRecordFiles', async () => {
+			const filterText = await vscode.window.showInputBox({
+				title: vscode.l10n.t('Filter Recordings'),
+				prompt: vscode.l10n.t(
+					'Enter a text to find in the folder name, workspace, author, recorded files or git branch'
+				),
+				value: recordFilesProvider.filterText,
+			})
+			if (filterText !== undefined) {
+				setRecordFilesFilter(filterText.trim())
+			}
+		}),
+		vscode.commands.registerCommand('vs-code-recorder.clearRecordFilesFilter', () =>
+			setRecordFilesFilter('')
+		),
+		vscode.commands.registerCommand('vs-code-recorder.groupRecordFiles', pickRecordFilesGrouping),
+		vscode.commands.registerCommand('vs-code-recorder.sortRecordFiles', pickRecordFilesSorting)
 	)
 
 	// Register delete command
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'vs-code-recorder.deleteRecordFile',
-			async (item: RecordFile) => {
-				const exportPath = getExportPath()
-				if (!exportPath) {
+			async (item: RecordFile, selectedItems?: RecordFile[]) => {
+				const items = getSelectedItems(item, selectedItems)
+				const itemPathsByExportPath = groupItemPathsByExportPath(items)
+				if (itemPathsByExportPath.size === 0) {
 					return
 				}
 
 				const result = await vscode.window.showWarningMessage(
-					vscode.l10n.t('Are you sure you want to delete {name}?', { name: item.label }),
+					items.length === 1
+						? vscode.l10n.t('Are you sure you want to delete {name}?', { name: items[0].label })
+						: vscode.l10n.t('Are you sure you want to delete {count} items?', {
+								count: items.length,
+							}),
 					vscode.l10n.t('Yes'),
 					vscode.l10n.t('No')
 				)
 
 				if (result === vscode.l10n.t('Yes')) {
 					try {
-						const itemPath = getFullPath(item, exportPath)
-						await deleteFileOrFolder(itemPath)
-						recordFilesProvider.refresh()
+						// Each export path has its own trash folder, so the items are deleted from each of them
+						await Promise.all(
+							[...itemPathsByExportPath].map(([exportPath, itemPaths]) =>
+								deleteWithUndo(exportPath, itemPaths, () => recordFilesProvider.refresh())
+							)
+						)
 					} catch (err) {
-						vscode.window.showErrorMessage(`Error deleting ${item.label}: ${err}`)
+						vscode.window.showErrorMessage(
+							items.length === 1
+								? `Error deleting ${items[0].label}: ${err}`
+								: `Error deleting ${items.length} items: ${err}`
+						)
+						recordFilesProvider.refresh()
 					}
 				}
 			}
 		)
 	)
 
-	// Register reveal in explorer command
+	/**
+	 * Gets the paths of the recording folders a command of the tree applies to.
+	 * @param item - The tree item the command is run on
+	 * @param selectedItems - The selected tree items, when several are selected
+	 * @returns The paths of the recording folders
+	 */
+	const getSelectedSessionPaths = (item: RecordFile, selectedItems?: RecordFile[]): string[] =>
+		getItemPaths(
+			getSelectedItems(item, selectedItems).filter(selectedItem => selectedItem.isFolder)
+		)
+
+	// Register pin, unpin and retention policy preview commands
 	context.subscriptions.push(
-		vscode.commands.registerCommand('vs-code-recorder.revealInExplorer', (item: RecordFile) => {
+		vscode.commands.registerCommand(
+			'vs-code-recorder.pinRecording',
+			async (item: RecordFile, selectedItems?: RecordFile[]) => {
+				const sessionPaths = getSelectedSessionPaths(item, selectedItems)
+				if (sessionPaths.length === 0) {
+					return
+				}
+
+				try {
+					await setPinned(sessionPaths, true)
+					recordFilesProvider.refresh()
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error pinning ${item.label}: ${err}`)
+				}
+			}
+		),
+		vscode.commands.registerCommand(
+			'vs-code-recorder.unpinRecording',
+			async (item: RecordFile, selectedItems?: RecordFile[]) => {
+				const sessionPaths = getSelectedSessionPaths(item, selectedItems)
+				if (sessionPaths.length === 0) {
+					return
+				}
+
+				try {
+					await setPinned(sessionPaths, false)
+					recordFilesProvider.refresh()
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error unpinning ${item.label}: ${err}`)
+				}
+			}
+		),
+		vscode.commands.registerCommand('vs-code-recorder.previewRetentionPolicy', async () => {
 			const exportPath = getExportPath()
 			if (!exportPath) {
 				return
 			}
 
-			const itemPath = getFullPath(item, exportPath)
-			vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(itemPath))
+			try {
+				const count = await previewRetentionPolicy(exportPath)
+				if (count > 0) {
+					notificationWithProgress(vscode.l10n.t('{count} recordings cleaned up', { count }))
+					recordFilesProvider.refresh()
+				}
+			} catch (err) {
+				vscode.window.showErrorMessage(`Error applying the retention policy: ${err}`)
+			}
+		})
+	)
+
+	// Register rename, duplicate and move commands
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'vs-code-recorder.renameRecording',
+			async (item: RecordFile, selectedItems?: RecordFile[]) => {
+				const sessionPaths = getSelectedSessionPaths(item, selectedItems)
+				if (sessionPaths.length === 0) {
+					return
+				}
+
+				try {
+					if (await renameSessions(sessionPaths)) {
+						recordFilesProvider.refresh()
+					}
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error renaming ${item.label}: ${err}`)
+				}
+			}
+		),
+		vscode.commands.registerCommand(
+			'vs-code-recorder.duplicateRecording',
+			async (item: RecordFile, selectedItems?: RecordFile[]) => {
+				const sessionPaths = getSelectedSessionPaths(item, selectedItems)
+				if (sessionPaths.length === 0) {
+					return
+				}
+
+				try {
+					if ((await duplicateSessions(sessionPaths)).length > 0) {
+						recordFilesProvider.refresh()
+					}
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error duplicating ${item.label}: ${err}`)
+					recordFilesProvider.refresh()
+				}
+			}
+		),
+		vscode.commands.registerCommand(
+			'vs-code-recorder.moveRecording',
+			async (item: RecordFile, selectedItems?: RecordFile[]) => {
+				const sessionPaths = getSelectedSessionPaths(item, selectedItems)
+				if (sessionPaths.length === 0) {
+					return
+				}
+
+				try {
+					if (await moveSessions(sessionPaths)) {
+						notificationWithProgress(vscode.l10n.t('Recordings moved'))
+						recordFilesProvider.refresh()
+					}
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error moving ${item.label}: ${err}`)
+					recordFilesProvider.refresh()
+				}
+			}
+		)
+	)
+
+	// Register reveal in explorer command
+	context.subscriptions.push(
+		vscode.commands.registerCommand('vs-code-recorder.revealInExplorer', (item: RecordFile) => {
+			if (!item.itemPath) {
+				return
+			}
+
+			vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(item.itemPath))
 		})
 	)
 
+	// Register process source CSV command
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'vs-code-recorder.processSourceCsv',
+			async (item: RecordFile) => {
+				const itemPath = item.itemPath
+				if (!itemPath) {
+					return
+				}
+
+				const sessionPath = item.isFolder ? itemPath : path.dirname(itemPath)
+				try {
+					if (await processSourceCsv(sessionPath)) {
+						notificationWithProgress(vscode.l10n.t('Recording processed'))
+						recordFilesProvider.refresh()
+					}
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error processing ${item.label}: ${err}`)
+				}
+			}
+		)
+	)
+
+	// Register re-export command
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'vs-code-recorder.reexportRecording',
+			async (item: RecordFile) => {
+				const itemPath = item.itemPath
+				if (!itemPath) {
+					return
+				}
+
+				try {
+					if (await reexportRecording(itemPath)) {
+						notificationWithProgress(vscode.l10n.t('Recording exported'))
+						recordFilesProvider.refresh()
+					}
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error exporting ${item.label}: ${err}`)
+				}
+			}
+		)
+	)
+
+	// Register edit command
+	context.subscriptions.push(
+		vscode.commands.registerCommand('vs-code-recorder.editRecording', async (item: RecordFile) => {
+			const itemPath = item.itemPath
+			if (!itemPath) {
+				return
+			}
+
+			try {
+				const editedSessionPath = await editRecording(itemPath)
+				if (editedSessionPath) {
+					notificationWithProgress(
+						vscode.l10n.t('Recording saved as {name}', {
+							name: path.basename(editedSessionPath),
+						})
+					)
+					recordFilesProvider.refresh()
+				}
+			} catch (err) {
+				vscode.window.showErrorMessage(`Error editing ${item.label}: ${err}`)
+			}
+		})
+	)
+
+	// Register statistics command
+	context.subscriptions.push(
+		vscode.commands.registerCommand('vs-code-recorder.showStatistics', async (item: RecordFile) => {
+			const itemPath = item.itemPath
+			if (!itemPath) {
+				return
+			}
+
+			try {
+				const summaryPath = await writeRecordingStatistics(itemPath)
+				if (summaryPath) {
+					await vscode.commands.executeCommand('markdown.showPreview', vscode.Uri.file(summaryPath))
+					recordFilesProvider.refresh()
+				}
+			} catch (err) {
+				vscode.window.showErrorMessage(`Error computing the statistics of ${item.label}: ${err}`)
+			}
+		})
+	)
+
+	// Register replay document provider and command
+	context.subscriptions.push(
+		vscode.workspace.registerTextDocumentContentProvider(REPLAY_SCHEME, replayContentProvider)
+	)
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'vs-code-recorder.replayRecording',
+			async (item: RecordFile, startTime?: number) => {
+				const itemPath = item.itemPath
+				if (!itemPath) {
+					return
+				}
+
+				try {
+					// The chapters of the tree pass their start time
+					await replayRecording(itemPath, typeof startTime === 'number' ? startTime : 0)
+				} catch (err) {
+					vscode.window.showErrorMessage(`Error replaying ${item.label}: ${err}`)
+				}
+			}
+		)
+	)
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(commands.startRecording, () => {
 			startRecording()
@@ -140,6 +459,24 @@ export function activate(context: vscode.ExtensionContext): void {
 		})
 	)
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand(commands.pauseRecording, () => {
+			pauseRecording()
+		})
+	)
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(commands.resumeRecording, () => {
+			resumeRecording()
+		})
+	)
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(commands.addMarker, (title?: string) => {
+			addMarker(title)
+		})
+	)
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(commands.openSettings, () => {
 			vscode.commands.executeCommand(
@@ -159,8 +496,10 @@ export function activate(context: vscode.ExtensionContext): void {
 
 	vscode.window.onDidChangeActiveTextEditor(editor => {
 		updateStatusBarItem()
-		if (editor && recording.isRecording) {
-			if (isCurrentFileExported()) {
+		recordFilesProvider.refreshExportPath()
+		if (editor && recording.isRecording && !recording.isPaused) {
+			flushPendingLine()
+			if (isDocumentIgnored(editor.document)) {
 				return
 			}
 			const editorText = vscode.window.activeTextEditor?.document.getText()
@@ -180,11 +519,37 @@ export function activate(context: vscode.ExtensionContext): void {
 	})
 
 	statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 9000)
+	pauseStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 9001)
 	updateStatusBarItem()
-	context.subscriptions.push(statusBarItem)
+	context.subscriptions.push(statusBarItem, pauseStatusBarItem)
+
+	// Offer to process the recordings left unfinished by a crash or a window reload
+	recoverUnfinishedRecordings().catch(err =>
+		logToOutput(`Error recovering the unfinished recordings: ${err}`, 'error')
+	)
+
+	// Meanwhile, send the items of the deletions not completed before VS Code was closed to the trash,
+	// then delete the recordings exceeding the retention policy, in the export path of each workspace
+	// folder. The unfinished recordings are left out, so the user can still answer the offer
+	cleanUpExportPaths()
+}
+
+/**
+ * Empties the trash folder and applies the retention policy in the export path of each workspace folder.
+ */
+async function cleanUpExportPaths(): Promise<void> {
+	for (const exportPath of resolveExportPaths()) {
+		try {
+			await emptyTrashFolder(exportPath)
+			await applyRetentionPolicy(exportPath)
+		} catch (err) {
+			logToOutput(`Error cleaning up ${exportPath}: ${err}`, 'error')
+		}
+	}
 }
 
 export function deactivate(): void {
 	logToOutput(vscode.l10n.t('Deactivating VS Code Recorder'), 'info')
 	statusBarItem.dispose()
+	pauseStatusBarItem.dispose()
 }
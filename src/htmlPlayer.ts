@@ -0,0 +1,74 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Change } from './types'
+import { escapeHtml } from './utilities'
+
+/**
+ * Folder of the player script and style, inlined in the HTML export.
+ * The compiled extension lives in `out`, next to the `media` folder.
+ */
+const MEDIA_PATH = path.join(__dirname, '..', 'media')
+
+const SPEEDS = [0.5, 1, 1.5, 2, 4, 8]
+
+/**
+ * Serializes the changes so they can be embedded in a script tag.
+ * @param processedChanges - The processed changes.
+ * @returns The JSON string, safe to embed in HTML.
+ */
+function serializeChanges(processedChanges: Change[]): string {
+	return JSON.stringify(processedChanges).replace(/</g, '\\u003c')
+}
+
+/**
+ * Builds a standalone HTML page embedding the changes and a player to watch them,
+ * with syntax highlighting, a tab for each file and a timeline.
+ * @param processedChanges - The processed changes.
+ * @param title - The title of the recording.
+ * @returns The content of the HTML file.
+ */
+export function buildHtmlFile(processedChanges: Change[], title: string): string {
+	const script = fs.readFileSync(path.join(MEDIA_PATH, 'player.js'), 'utf8')
+	const style = fs.readFileSync(path.join(MEDIA_PATH, 'player.css'), 'utf8')
+	const speedOptions = SPEEDS.map(
+		speed => `<option value="${speed}"${speed === 1 ? ' selected' : ''}>${speed}x</option>`
+	).join('')
+
+	return `<!DOCTYPE html>
+<html lang="${vscode.env.language}">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta name="generator" content="VS Code Recorder">
+	<title>${escapeHtml(title)}</title>
+	<style>
+${style}
+	</style>
+</head>
+<body>
+	<h1 class="title">${escapeHtml(title)}</h1>
+	<div class="tabs" id="tabs"></div>
+	<div class="editor" id="editor">
+		<pre class="gutter" id="gutter"></pre>
+		<pre class="code" id="code"></pre>
+	</div>
+	<div class="controls">
+		<button id="play" data-play="${escapeHtml(vscode.l10n.t('Play'))}" data-pause="${escapeHtml(
+			vscode.l10n.t('Pause')
+		)}">${escapeHtml(vscode.l10n.t('Play'))}</button>
+		<label>
+			${escapeHtml(vscode.l10n.t('Speed'))}
+			<select id="speed">${speedOptions}</select>
+		</label>
+		<input class="timeline" id="timeline" type="range" min="0" value="0" step="1">
+		<span class="time" id="time"></span>
+	</div>
+	<script type="application/json" id="recording-data">${serializeChanges(processedChanges)}</script>
+	<script>
+${script}
+	</script>
+</body>
+</html>
+`
+}
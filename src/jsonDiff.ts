@@ -0,0 +1,89 @@
+import type { Change, ChangeDelta, DiffChange, DiffRecording } from './types'
+
+/**
+ * Version of the diff-based JSON schema, increased on breaking changes.
+ */
+export const DIFF_FORMAT_VERSION = 1
+
+/**
+ * Computes the single range replacement that turns a text into another one.
+ * @param previousText - The previous text.
+ * @param text - The new text.
+ * @returns The delta to apply to the previous text.
+ */
+export function getDelta(previousText: string, text: string): ChangeDelta {
+	const maxLength = Math.min(previousText.length, text.length)
+	let prefixLength = 0
+	while (prefixLength < maxLength && previousText[prefixLength] === text[prefixLength]) {
+		prefixLength++
+	}
+	let suffixLength = 0
+	while (
+		suffixLength < maxLength - prefixLength &&
+		previousText[previousText.length - 1 - suffixLength] === text[text.length - 1 - suffixLength]
+	) {
+		suffixLength++
+	}
+	return {
+		rangeOffset: prefixLength,
+		rangeLength: previousText.length - prefixLength - suffixLength,
+		text: text.slice(prefixLength, text.length - suffixLength),
+	}
+}
+
+/**
+ * Builds the diff-based JSON file, storing the full text of a file only in keyframes
+ * and the edits in between as deltas.
+ * A keyframe is stored for the first change of each file and then every `keyframeInterval` deltas.
+ * Changes without keyframe and delta, like selections, keep the text of the file unchanged.
+ * @param processedChanges - The processed changes.
+ * @param keyframeInterval - The number of deltas between two keyframes of the same file.
+ * @returns The content of the diff-based JSON file.
+ */
+export function buildDiffFile(processedChanges: Change[], keyframeInterval: number): string {
+	const snapshots = new Map<string, { text: string; deltas: number }>()
+
+	const changes = processedChanges.map(({ text, ...change }): DiffChange => {
+		const snapshot = snapshots.get(change.file)
+		if (!snapshot || snapshot.deltas >= keyframeInterval) {
+			snapshots.set(change.file, { text, deltas: 0 })
+			return { ...change, keyframe: text }
+		}
+		if (snapshot.text === text) {
+			return change
+		}
+		const delta = getDelta(snapshot.text, text)
+		snapshot.text = text
+		snapshot.deltas++
+		return { ...change, delta }
+	})
+
+	const recording: DiffRecording = { version: DIFF_FORMAT_VERSION, keyframeInterval, changes }
+	return JSON.stringify(recording)
+}
+
+/**
+ * Rebuilds the full text changes from a diff-based recording.
+ * @param recording - The diff-based recording.
+ * @returns The changes, with the full text of the file in each change.
+ */
+export function expandDiffRecording(recording: DiffRecording): Change[] {
+	if (recording.version !== DIFF_FORMAT_VERSION) {
+		throw new Error(`Unsupported diff recording version: ${recording.version}`)
+	}
+	const snapshots = new Map<string, string>()
+
+	return recording.changes.map(({ keyframe, delta, ...change }) => {
+		let text = snapshots.get(change.file) ?? ''
+		if (keyframe !== undefined) {
+			text = keyframe
+		} else if (delta) {
+			text =
+				text.slice(0, delta.rangeOffset) +
+				delta.text +
+				text.slice(delta.rangeOffset + delta.rangeLength)
+		}
+		snapshots.set(change.file, text)
+		return { ...change, text }
+	})
+}
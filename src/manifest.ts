@@ -0,0 +1,226 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as util from 'node:util'
+import { execFile } from 'node:child_process'
+import { version as extensionVersion } from '../package.json'
+import type { GitState, ProcessedRecording, SessionManifest } from './types'
+import { getConfig, logToOutput } from './utilities'
+
+export const MANIFEST_FILE_NAME = 'manifest.json'
+
+/**
+ * Version of the manifest schema, increased on breaking changes.
+ */
+const MANIFEST_VERSION = 1
+
+const execFileUtil = util.promisify(execFile)
+
+/**
+ * Runs a git command in a folder.
+ * @param cwd - The folder to run the command in.
+ * @param args - The arguments of the command.
+ * @returns The trimmed output, or `undefined` if git is not available or the folder is not a repository.
+ */
+async function runGit(cwd: string, args: string[]): Promise<string | undefined> {
+	try {
+		const { stdout } = await execFileUtil('git', args, { cwd, timeout: 5000 })
+		return stdout.trim() || undefined
+	} catch {
+		return
+	}
+}
+
+/**
+ * Gets the current branch and commit of the repository of a folder.
+ * @param cwd - The folder of the repository.
+ * @returns The git state, or `undefined` if the folder is not a repository.
+ */
+async function getGitState(cwd: string | undefined): Promise<GitState | undefined> {
+	if (!cwd) {
+		return
+	}
+	const [branch, commit] = await Promise.all([
+		runGit(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']),
+		runGit(cwd, ['rev-parse', 'HEAD']),
+	])
+	return commit ? { branch, commit } : undefined
+}
+
+/**
+ * Reads the manifest of a session folder.
+ * @param sessionPath - The path to the session folder.
+ * @returns The manifest, or `undefined` if the session has no valid manifest.
+ */
+export function readManifest(sessionPath: string): SessionManifest | undefined {
+	const manifestPath = path.join(sessionPath, MANIFEST_FILE_NAME)
+	if (!fs.existsSync(manifestPath)) {
+		return
+	}
+	try {
+		return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as SessionManifest
+	} catch (err) {
+		console.error('Error reading manifest:', err)
+		return
+	}
+}
+
+/**
+ * Writes the manifest of a session folder, replacing the existing one.
+ * @param sessionPath - The path to the session folder.
+ * @param manifest - The manifest to write.
+ */
+async function writeManifest(sessionPath: string, manifest: SessionManifest): Promise<void> {
+	await fs.promises.mkdir(sessionPath, { recursive: true })
+	await fs.promises.writeFile(
+		path.join(sessionPath, MANIFEST_FILE_NAME),
+		JSON.stringify(manifest, null, 2)
+	)
+}
+
+/**
+ * Creates the manifest of a session recorded without one, without the start information.
+ * @returns The manifest.
+ */
+function createManifest(): SessionManifest {
+	return {
+		version: MANIFEST_VERSION,
+		vscodeVersion: vscode.version,
+		extensionVersion,
+		workspace: vscode.workspace.name,
+		files: [],
+	}
+}
+
+/**
+ * Writes the manifest of a session when its recording starts, with who recorded it,
+ * the VS Code and extension versions, the workspace and the git state at start.
+ * @param sessionPath - The path to the session folder.
+ * @param startDateTime - The time at which the recording started.
+ * @param workspaceFolder - The workspace folder being recorded.
+ */
+export async function writeStartManifest(
+	sessionPath: string,
+	startDateTime: Date,
+	workspaceFolder: vscode.WorkspaceFolder | undefined
+): Promise<void> {
+	try {
+		const cwd = workspaceFolder?.uri.fsPath
+		const [recordedBy, gitStart] = await Promise.all([
+			cwd ? runGit(cwd, ['config', 'user.name']) : undefined,
+			getGitState(cwd),
+		])
+
+		await writeManifest(sessionPath, {
+			version: MANIFEST_VERSION,
+			recordedBy,
+			vscodeVersion: vscode.version,
+			extensionVersion,
+			workspace: vscode.workspace.name,
+			workspaceFolder: cwd,
+			startTime: startDateTime.toISOString(),
+			git: { start: gitStart },
+			files: [],
+		})
+	} catch (err) {
+		logToOutput(
+			vscode.l10n.t('Error writing the manifest: {error}', { error: String(err) }),
+			'error'
+		)
+	}
+}
+
+/**
+ * Updates the manifest of a session when its recording stops, with the end time
+ * and the git state at the end. The end time also marks the session as stopped,
+ * so it is not recovered even when it has no export files.
+ * @param sessionPath - The path to the session folder.
+ * @param endDateTime - The time at which the recording stopped.
+ */
+export async function writeStopManifest(sessionPath: string, endDateTime: Date): Promise<void> {
+	try {
+		const manifest = readManifest(sessionPath) ?? createManifest()
+		manifest.endTime = endDateTime.toISOString()
+		manifest.git = { ...manifest.git, end: await getGitState(manifest.workspaceFolder) }
+		await writeManifest(sessionPath, manifest)
+	} catch (err) {
+		logToOutput(
+			vscode.l10n.t('Error writing the manifest: {error}', { error: String(err) }),
+			'error'
+		)
+	}
+}
+
+/**
+ * Writes the manifest of a session edited from another one, marked as derived from it.
+ * It keeps who recorded the original session, where and when it started, and ends
+ * after the edited timeline. The git states are left out, as no recording was made.
+ * @param sessionPath - The path to the edited session folder.
+ * @param originalSessionPath - The path to the original session folder.
+ * @param duration - The duration of the edited timeline.
+ */
+export async function writeEditedManifest(
+	sessionPath: string,
+	originalSessionPath: string,
+	duration: number
+): Promise<void> {
+	try {
+		const original = readManifest(originalSessionPath)
+		const startTime = original?.startTime
+		await writeManifest(sessionPath, {
+			...createManifest(),
+			recordedBy: original?.recordedBy,
+			workspace: original?.workspace,
+			workspaceFolder: original?.workspaceFolder,
+			startTime,
+			endTime: startTime ? new Date(Date.parse(startTime) + duration).toISOString() : undefined,
+			duration,
+			derivedFrom: path.basename(originalSessionPath),
+		})
+	} catch (err) {
+		logToOutput(
+			vscode.l10n.t('Error writing the manifest: {error}', { error: String(err) }),
+			'error'
+		)
+	}
+}
+
+/**
+ * Updates the manifest of a session when it is processed, with the duration, the files touched
+ * and the export settings. Sessions whose recording never stopped, like the recovered ones,
+ * get the end time of their last recorded line.
+ * Sessions recorded without a manifest get one, without the start information.
+ * @param sessionPath - The path to the session folder.
+ * @param processedRecording - The processed editor changes and terminal changes.
+ * @param exportFormats - The exported formats.
+ */
+export async function updateManifest(
+	sessionPath: string,
+	{ changes, recordedEndTime }: ProcessedRecording,
+	exportFormats: string[]
+): Promise<void> {
+	try {
+		const manifest = readManifest(sessionPath) ?? createManifest()
+
+		if (!manifest.endTime && manifest.startTime && recordedEndTime !== undefined) {
+			manifest.endTime = new Date(Date.parse(manifest.startTime) + recordedEndTime).toISOString()
+		}
+		manifest.duration = changes.reduce((max, change) => Math.max(max, change.endTime), 0)
+		manifest.files = [...new Set(changes.map(change => change.file))]
+		manifest.exportSettings = {
+			exportFormats,
+			pausedIntervals: getConfig().get<string>('export.pausedIntervals'),
+			diffKeyframeInterval: getConfig().get<number>('export.diffKeyframeInterval'),
+			maxIdleTime: getConfig().get<number>('export.maxIdleTime'),
+			markIdleTime: getConfig().get<boolean>('export.markIdleTime'),
+			speedFactor: getConfig().get<number>('export.speedFactor'),
+		}
+
+		await writeManifest(sessionPath, manifest)
+	} catch (err) {
+		logToOutput(
+			vscode.l10n.t('Error writing the manifest: {error}', { error: String(err) }),
+			'error'
+		)
+	}
+}
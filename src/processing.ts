@@ -0,0 +1,663 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import {
+	ChangeType,
+	type Change,
+	type Chapter,
+	type CSVRow,
+	type JsonRecording,
+	type ProcessedRecording,
+	TerminalEvent,
+	type TerminalChange,
+} from './types'
+import { buildAsciicastFile } from './asciicast'
+import { readCsvFile } from './csv'
+import { buildHtmlFile } from './htmlPlayer'
+import { buildDiffFile } from './jsonDiff'
+import { CUE_PRESETS, DEFAULT_CUE_TEMPLATE, renderCueTemplate } from './cueText'
+import { updateManifest } from './manifest'
+import { buildVttChaptersFile, buildVttFile, buildVttMetadataFile } from './webvtt'
+import { formatSrtTime, getConfig } from './utilities'
+
+export const SOURCE_FILE_NAME = 'source.csv'
+export const EXPORT_FILE_NAME = 'recording'
+export const TERMINAL_TRACK_NAME = 'terminal'
+export const CHAPTERS_TRACK_NAME = 'chapters'
+const METADATA_TRACK_NAME = 'metadata'
+
+/**
+ * Version of the JSON export, increased on breaking changes.
+ * Older JSON exports are the array of the changes.
+ */
+export const JSON_FORMAT_VERSION = 1
+
+/**
+ * State shared between the lines of a CSV file while it is processed.
+ */
+interface CsvProcessingState {
+	/** The running text of each file. */
+	snapshots: Map<string, string>
+	/** The time at which the recording was paused, or `null` if it is not paused. */
+	pauseStartTime: number | null
+	/** The total time spent paused so far. */
+	pausedDuration: number
+	/** Whether paused intervals are exported as changes instead of being collapsed. */
+	markPauses: boolean
+	/** The recorded time of the last processed line. */
+	lastRecordedTime: number
+	/** The time of the last processed line, without the paused intervals if they are collapsed. */
+	lastActiveTime: number
+	/** The longest gap between two lines kept in the exported timeline, or 0 to keep them all. */
+	maxIdleTime: number
+	/** Whether compressed idle gaps are exported as changes. */
+	markIdleTime: boolean
+	/** The total time removed from the idle gaps so far. */
+	idleDuration: number
+	/** The factor the exported timeline is sped up by. */
+	speedFactor: number
+	/** The commands run in the terminals. */
+	terminalChanges: TerminalChange[]
+	/** The last command run in each terminal, receiving its output. */
+	terminalCommands: Map<string, TerminalChange>
+	/** The paused intervals so far, in the recorded timeline. */
+	pauses: TimeInterval[]
+	/** The compressed idle gaps so far, in the timeline without the paused intervals. */
+	activeIdleGaps: TimeInterval[]
+	/** The markers, placed at the recorded time their command was run. */
+	markers: { recordedTime: number; title: string }[]
+}
+
+/**
+ * An interval of a timeline.
+ */
+interface TimeInterval {
+	startTime: number
+	endTime: number
+}
+
+/**
+ * A compressed idle gap, in the exported timeline.
+ */
+type IdleGap = TimeInterval
+
+/**
+ * Returns the new text content based on the change type and the previous text of the file.
+ * @param type - The type of the change.
+ * @param text - The text of the change.
+ * @param previousText - The previous text of the changed file.
+ * @param rangeOffset - The offset of the range.
+ * @param rangeLength - The length of the range.
+ */
+function getNewTextContent(
+	type: string,
+	text: string,
+	previousText: string | undefined,
+	rangeOffset: number,
+	rangeLength: number
+): string {
+	if (type === ChangeType.TAB || type === ChangeType.SNAPSHOT) {
+		return text
+	}
+	if (previousText === undefined) {
+		return ''
+	}
+	if (type === ChangeType.SELECTION) {
+		return previousText
+	}
+	return getUpdatedText(previousText, rangeOffset, rangeLength, text)
+}
+
+/**
+ * Processes a single CSV row and returns the processed change
+ * @param row - The CSV row to process.
+ * @param previousChange - The previously processed change.
+ * @param state - The processing state, updated with the processed row.
+ */
+async function processCSVRow(
+	{ time: recordedTime, file, rangeOffset, rangeLength, text, language, type, terminal }: CSVRow,
+	previousChange: Change | null,
+	state: CsvProcessingState
+): Promise<Change | null> {
+	if (type === ChangeType.MARKER) {
+		// The marker is recorded when its title is confirmed, after the lines recorded meanwhile,
+		// so its time is resolved once the whole timeline is known
+		state.markers.push({ recordedTime, title: text })
+		return null
+	}
+
+	state.lastRecordedTime = recordedTime
+
+	if (type === ChangeType.RESUME) {
+		if (state.pauseStartTime !== null) {
+			state.pausedDuration += recordedTime - state.pauseStartTime
+			state.pauses.push({ startTime: state.pauseStartTime, endTime: recordedTime })
+			state.pauseStartTime = null
+		}
+		// The paused interval is not an idle gap
+		state.lastActiveTime = getActiveTime(recordedTime, state)
+		return null
+	}
+
+	const time = getProcessedTime(getActiveTime(recordedTime, state), state)
+
+	if (type === ChangeType.TERMINAL) {
+		if (terminal) {
+			processTerminalEvent(terminal.name, terminal.event, text, time, state)
+		}
+		return null
+	}
+
+	if (type === ChangeType.PAUSE) {
+		state.pauseStartTime = recordedTime
+		if (!state.markPauses || !previousChange) {
+			return null
+		}
+		return {
+			...previousChange,
+			sequence: previousChange.sequence + 1,
+			startTime: time,
+			endTime: 0,
+			paused: true,
+		}
+	}
+
+	const newText = getNewTextContent(type, text, state.snapshots.get(file), rangeOffset, rangeLength)
+	state.snapshots.set(file, newText)
+	const selection =
+		type === ChangeType.SELECTION ? { offset: rangeOffset, length: rangeLength } : undefined
+
+	/**
+	 * Skip exporting changes with the same values to the previous change.
+	 */
+	if (
+		previousChange &&
+		time === previousChange.startTime &&
+		file === previousChange.file &&
+		newText === previousChange.text &&
+		language === previousChange.language &&
+		selection?.offset === previousChange.selection?.offset &&
+		selection?.length === previousChange.selection?.length
+	) {
+		return null
+	}
+
+	return {
+		sequence: previousChange ? previousChange.sequence + 1 : 1,
+		file,
+		startTime: time,
+		endTime: 0,
+		language,
+		text: newText,
+		selection,
+	}
+}
+
+/**
+ * Gets the time of a line in the timeline where paused intervals are removed,
+ * unless they are marked.
+ * @param recordedTime - The recorded time of the line.
+ * @param state - The processing state.
+ * @returns The time without the paused intervals.
+ */
+function getActiveTime(recordedTime: number, state: CsvProcessingState): number {
+	return state.markPauses ? recordedTime : recordedTime - state.pausedDuration
+}
+
+/**
+ * Gets the exported time of a line, without the time removed from the idle gaps
+ * and sped up by the speed factor.
+ * @param activeTime - The time of the line without the paused intervals.
+ * @param state - The processing state.
+ * @returns The exported time.
+ */
+function getProcessedTime(activeTime: number, state: CsvProcessingState): number {
+	return Math.round((activeTime - state.idleDuration) / state.speedFactor)
+}
+
+/**
+ * Gets the exported time of a marker from its recorded time, removing the paused intervals
+ * and the idle time before it, even if they were processed after the marker was placed.
+ * A marker placed while paused starts its chapter when the recording is resumed.
+ * @param recordedTime - The recorded time of the marker.
+ * @param state - The processing state, with the whole timeline processed.
+ * @returns The exported time.
+ */
+function getMarkerTime(recordedTime: number, state: CsvProcessingState): number {
+	let activeTime = recordedTime
+	if (!state.markPauses) {
+		for (const pause of state.pauses) {
+			if (pause.startTime < recordedTime) {
+				activeTime -= Math.min(recordedTime, pause.endTime) - pause.startTime
+			}
+		}
+	}
+	// Only the end of each idle gap, past the longest gap allowed, is removed
+	const maxIdleTime = state.maxIdleTime * state.speedFactor
+	const idleDuration = state.activeIdleGaps.reduce(
+		(total, gap) =>
+			total + Math.max(0, Math.min(activeTime, gap.endTime) - gap.startTime - maxIdleTime),
+		0
+	)
+	return Math.round((activeTime - idleDuration) / state.speedFactor)
+}
+
+/**
+ * Shortens the idle gap before a line to the longest gap allowed by the settings,
+ * measured in the exported timeline. Gaps while paused are left to the paused intervals setting.
+ * @param recordedTime - The recorded time of the line.
+ * @param state - The processing state, updated with the removed time.
+ * @returns The compressed gap in the exported timeline, or `undefined` if it was not compressed.
+ */
+function compressIdleTime(recordedTime: number, state: CsvProcessingState): IdleGap | undefined {
+	if (state.pauseStartTime !== null) {
+		return
+	}
+	const activeTime = getActiveTime(recordedTime, state)
+	const idleTime = activeTime - state.lastActiveTime
+	const maxIdleTime = state.maxIdleTime * state.speedFactor
+	state.lastActiveTime = Math.max(state.lastActiveTime, activeTime)
+	if (state.maxIdleTime <= 0 || idleTime <= maxIdleTime) {
+		return
+	}
+	const startTime = getProcessedTime(activeTime - idleTime, state)
+	state.activeIdleGaps.push({ startTime: activeTime - idleTime, endTime: activeTime })
+	state.idleDuration += idleTime - maxIdleTime
+	return { startTime, endTime: getProcessedTime(activeTime, state) }
+}
+
+/**
+ * Adds a change marking a compressed idle gap, showing the text of the previous change,
+ * when idle gaps are marked. The idle change takes the second half of the gap,
+ * so the previous change is still shown for the first half.
+ * @param processedChanges - The processed changes, updated with the idle change.
+ * @param idleGap - The compressed gap in the exported timeline, if any.
+ * @param state - The processing state.
+ */
+function markIdleGap(
+	processedChanges: Change[],
+	idleGap: IdleGap | undefined,
+	state: CsvProcessingState
+): void {
+	const previousChange = processedChanges[processedChanges.length - 1]
+	if (!idleGap || !state.markIdleTime || !previousChange) {
+		return
+	}
+	const startTime = Math.round((idleGap.startTime + idleGap.endTime) / 2)
+	previousChange.endTime = startTime
+	processedChanges.push({
+		...previousChange,
+		sequence: previousChange.sequence + 1,
+		startTime,
+		endTime: idleGap.endTime,
+		paused: undefined,
+		idle: true,
+	})
+}
+
+/**
+ * Adds a terminal event to the terminal track: a command starts a new terminal change,
+ * and the output and exit code are added to the last command of the same terminal.
+ * @param terminal - The name of the terminal.
+ * @param event - The type of the terminal event.
+ * @param text - The command line, the output or the exit code.
+ * @param time - The time of the event.
+ * @param state - The processing state, updated with the event.
+ */
+function processTerminalEvent(
+	terminal: string,
+	event: string,
+	text: string,
+	time: number,
+	state: CsvProcessingState
+): void {
+	if (event === TerminalEvent.INPUT) {
+		const terminalChange: TerminalChange = {
+			sequence: state.terminalChanges.length + 1,
+			terminal,
+			startTime: time,
+			endTime: 0,
+			command: text,
+			output: '',
+		}
+		state.terminalChanges.push(terminalChange)
+		state.terminalCommands.set(terminal, terminalChange)
+		return
+	}
+
+	const terminalChange = state.terminalCommands.get(terminal)
+	if (!terminalChange) {
+		return
+	}
+	if (event === TerminalEvent.OUTPUT) {
+		terminalChange.output += text
+	} else if (event === TerminalEvent.EXIT) {
+		terminalChange.endTime = time
+		const exitCode = Number.parseInt(text)
+		if (!Number.isNaN(exitCode)) {
+			terminalChange.exitCode = exitCode
+		}
+	}
+}
+
+/**
+ * Removes the escape sequences (colors, cursor movements, shell integration marks)
+ * from the output of a terminal, so it can be displayed as plain text.
+ * @param output - The raw output of the terminal.
+ * @returns The plain text output.
+ */
+function cleanTerminalOutput(output: string): string {
+	return output
+		.replace(/\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g, '')
+		.replace(/\u001b\[[0-?]*[ -/]*[@-~]/g, '')
+		.replace(/\u001b[@-_]/g, '')
+		.replace(/\r\n/g, '\n')
+}
+
+/**
+ * Returns the updated text content based on the previous text, range offset, range length, and new text.
+ * @param previousText - The previous text.
+ * @param rangeOffset - The offset of the range.
+ * @param rangeLength - The length of the range.
+ * @param newText - The new text.
+ */
+function getUpdatedText(
+	previousText: string,
+	rangeOffset: number,
+	rangeLength: number,
+	newText: string
+): string {
+	const textArray = previousText.split('')
+	textArray.splice(rangeOffset, rangeLength, newText)
+	return textArray.join('')
+}
+
+/**
+ * Processes a source CSV file into the changes to export.
+ * @param filePath - The path to the source CSV file.
+ * @param recordedEndTime - The time at which the recording was stopped, relative to its start.
+ * When not provided, as for recordings that were never stopped, the time of the last recorded line is used.
+ * @returns The processed editor changes, terminal changes and chapters.
+ */
+export async function processCsvFile(
+	filePath: string,
+	recordedEndTime?: number
+): Promise<ProcessedRecording> {
+	if (!fs.existsSync(filePath)) {
+		throw new Error(`Source file not found: ${filePath}`)
+	}
+
+	const processedChanges: Change[] = []
+	const state: CsvProcessingState = {
+		snapshots: new Map<string, string>(),
+		pauseStartTime: null,
+		pausedDuration: 0,
+		markPauses: getConfig().get<string>('export.pausedIntervals') === 'mark',
+		lastRecordedTime: 0,
+		lastActiveTime: 0,
+		maxIdleTime: getConfig().get<number>('export.maxIdleTime', 0) * 1000,
+		markIdleTime: getConfig().get<boolean>('export.markIdleTime', false),
+		idleDuration: 0,
+		speedFactor: getConfig().get<number>('export.speedFactor', 1),
+		terminalChanges: [],
+		terminalCommands: new Map<string, TerminalChange>(),
+		pauses: [],
+		activeIdleGaps: [],
+		markers: [],
+	}
+
+	for await (const row of readCsvFile(filePath)) {
+		// The markers are not part of the timeline, they are placed in it afterwards
+		if (row.type !== ChangeType.RESUME && row.type !== ChangeType.MARKER) {
+			markIdleGap(processedChanges, compressIdleTime(row.time, state), state)
+		}
+
+		const previousChange = processedChanges[processedChanges.length - 1]
+		const change = await processCSVRow(row, previousChange, state)
+
+		if (change) {
+			if (previousChange) {
+				previousChange.endTime = change.startTime
+			}
+			processedChanges.push(change)
+		}
+	}
+
+	const endTime = recordedEndTime ?? state.lastRecordedTime
+	// The idle time before the end of the recording is compressed too
+	markIdleGap(processedChanges, compressIdleTime(endTime, state), state)
+	// A recording stopped while paused is still paused until its end
+	if (state.pauseStartTime !== null) {
+		state.pausedDuration += endTime - state.pauseStartTime
+		state.pauses.push({ startTime: state.pauseStartTime, endTime })
+	}
+	const processedEndTime = getProcessedTime(getActiveTime(endTime, state), state)
+	const lastChange = processedChanges[processedChanges.length - 1]
+	if (lastChange) {
+		lastChange.endTime = processedEndTime
+	}
+	for (const terminalChange of state.terminalChanges) {
+		terminalChange.output = cleanTerminalOutput(terminalChange.output)
+		// Commands still running when the recording was stopped last until its end
+		if (terminalChange.endTime === 0) {
+			terminalChange.endTime = processedEndTime
+		}
+	}
+
+	// The markers are recorded when their name is confirmed, so they may be out of order
+	const chapters: Chapter[] = state.markers
+		.map(marker => ({
+			sequence: 0,
+			title: marker.title,
+			startTime: getMarkerTime(marker.recordedTime, state),
+			endTime: 0,
+		}))
+		.sort((a, b) => a.startTime - b.startTime)
+	chapters.forEach((chapter, index) => {
+		chapter.sequence = index + 1
+		chapter.endTime = chapters[index + 1]?.startTime ?? processedEndTime
+	})
+
+	return {
+		changes: processedChanges,
+		terminalChanges: state.terminalChanges,
+		chapters,
+		recordedEndTime: endTime,
+	}
+}
+
+/**
+ * Adds a line to the SRT file format.
+ * @param sequence - The sequence number of the change.
+ * @param start - The start time of the change.
+ * @param end - The end time of the change.
+ * @param text - The text of the change.
+ * @returns A string representing a line in the SRT file format.
+ */
+function addSrtLine(sequence: number, start: number, end: number, text: string): string {
+	return `${sequence}\n${formatSrtTime(start)} --> ${formatSrtTime(end)}\n${text}\n\n`
+}
+
+/**
+ * Gets the cue template of the SRT file from the settings.
+ * @returns The template of the selected preset, the custom template,
+ * or `undefined` to write the changes as JSON.
+ */
+function getSrtCueTemplate(): string | undefined {
+	const preset = getConfig().get<string>('export.srtCuePreset', 'json')
+	if (preset === 'custom') {
+		return getConfig().get<string>('export.srtCueTemplate', DEFAULT_CUE_TEMPLATE)
+	}
+	return CUE_PRESETS[preset]
+}
+
+/**
+ * Builds the SRT file content, with a cue for each change and for each chapter. The text of the
+ * cues of the changes is the change as JSON, or the cue template of the settings, without
+ * the blank lines that would end the cue and the trailing spaces.
+ * The cues of the chapters hold their title, as JSON when the changes are, and span the chapter,
+ * so they come before the cues of the changes starting at the same time.
+ * Changes whose cue is empty are skipped.
+ * @param processedChanges - The processed changes.
+ * @param chapters - The processed chapters.
+ * @returns The content of the SRT file.
+ */
+function buildSrtFile(processedChanges: Change[], chapters: Chapter[]): string {
+	const template = getSrtCueTemplate()
+	const snapshots = new Map<string, string>()
+	const chapterCues = chapters.map(chapter => ({
+		startTime: chapter.startTime,
+		endTime: chapter.endTime,
+		text: template ? chapter.title : JSON.stringify({ chapter: chapter.title }),
+	}))
+	const changeCues = processedChanges.map(change => {
+		const previousText = snapshots.get(change.file)
+		snapshots.set(change.file, change.text)
+		const text = template
+			? renderCueTemplate(template, change, previousText)
+					.split(/\r?\n/)
+					.map(line => line.trimEnd())
+					.filter(line => line)
+					.join('\n')
+			: JSON.stringify({
+					text: change.text,
+					file: change.file,
+					language: change.language,
+					selection: change.selection,
+					paused: change.paused,
+					idle: change.idle,
+				})
+		return { startTime: change.startTime, endTime: change.endTime, text }
+	})
+	// The sort is stable, so the changes of the same time keep their order
+	return [...chapterCues, ...changeCues]
+		.filter(cue => cue.text)
+		.sort((a, b) => a.startTime - b.startTime)
+		.map((cue, index) => addSrtLine(index + 1, cue.startTime, cue.endTime, cue.text))
+		.join('')
+}
+
+/**
+ * Builds the SRT file content of the terminal track, with a cue for each command.
+ * @param terminalChanges - The processed terminal changes.
+ * @returns The content of the SRT file.
+ */
+function buildTerminalSrtFile(terminalChanges: TerminalChange[]): string {
+	return terminalChanges
+		.map(terminalChange =>
+			addSrtLine(
+				terminalChange.sequence,
+				terminalChange.startTime,
+				terminalChange.endTime,
+				JSON.stringify({
+					terminal: terminalChange.terminal,
+					command: terminalChange.command,
+					output: terminalChange.output,
+					exitCode: terminalChange.exitCode,
+				})
+			)
+		)
+		.join('')
+}
+
+/**
+ * Builds the content of the JSON file: the version of the format, the changes and the chapters,
+ * which are always written, empty when no markers were added, so the shape stays the same.
+ * @param processedChanges - The processed changes.
+ * @param chapters - The processed chapters.
+ * @returns The content of the JSON file.
+ */
+function buildJsonFile(processedChanges: Change[], chapters: Chapter[]): string {
+	const recording: JsonRecording = {
+		version: JSON_FORMAT_VERSION,
+		changes: processedChanges,
+		chapters,
+	}
+	return JSON.stringify(recording)
+}
+
+/**
+ * Writes the export files of a recording session, replacing the existing ones.
+ * The terminal track is written to its own JSON and SRT files, when commands were recorded,
+ * the chapters to the JSON file, to their own WebVTT file and as cues of the SRT file,
+ * and the manifest of the session is updated.
+ * @param sessionPath - The path to the session folder.
+ * @param processedRecording - The processed editor changes, terminal changes and chapters.
+ * @param exportFormats - The formats to export.
+ */
+export async function finalizeRecording(
+	sessionPath: string,
+	processedRecording: ProcessedRecording,
+	exportFormats: string[]
+): Promise<void> {
+	const { changes: processedChanges, terminalChanges, chapters } = processedRecording
+	const exportFilePath = path.join(sessionPath, EXPORT_FILE_NAME)
+	const hasTerminalTrack = terminalChanges.length > 0
+	if (exportFormats.includes('JSON')) {
+		await fs.promises.writeFile(`${exportFilePath}.json`, buildJsonFile(processedChanges, chapters))
+		if (hasTerminalTrack) {
+			await fs.promises.writeFile(
+				`${exportFilePath}.${TERMINAL_TRACK_NAME}.json`,
+				JSON.stringify(terminalChanges)
+			)
+		}
+	}
+	if (exportFormats.includes('JSON_DIFF')) {
+		await fs.promises.writeFile(
+			`${exportFilePath}.diff.json`,
+			buildDiffFile(processedChanges, getConfig().get<number>('export.diffKeyframeInterval', 100))
+		)
+	}
+	if (exportFormats.includes('SRT')) {
+		await fs.promises.writeFile(`${exportFilePath}.srt`, buildSrtFile(processedChanges, chapters))
+		if (hasTerminalTrack) {
+			await fs.promises.writeFile(
+				`${exportFilePath}.${TERMINAL_TRACK_NAME}.srt`,
+				buildTerminalSrtFile(terminalChanges)
+			)
+		}
+	}
+	if (exportFormats.includes('VTT')) {
+		await fs.promises.writeFile(`${exportFilePath}.vtt`, buildVttFile(processedChanges))
+		await fs.promises.writeFile(
+			`${exportFilePath}.${METADATA_TRACK_NAME}.vtt`,
+			buildVttMetadataFile(processedChanges)
+		)
+		if (chapters.length > 0) {
+			await fs.promises.writeFile(
+				`${exportFilePath}.${CHAPTERS_TRACK_NAME}.vtt`,
+				buildVttChaptersFile(chapters)
+			)
+		}
+	}
+	if (exportFormats.includes('ASCIICAST')) {
+		await fs.promises.writeFile(
+			`${exportFilePath}.cast`,
+			buildAsciicastFile(processedChanges, path.basename(sessionPath))
+		)
+	}
+	if (exportFormats.includes('HTML')) {
+		await fs.promises.writeFile(
+			`${exportFilePath}.html`,
+			buildHtmlFile(processedChanges, path.basename(sessionPath))
+		)
+	}
+	await updateManifest(sessionPath, processedRecording, exportFormats)
+}
+
+/**
+ * Processes the source CSV file of a recording session and writes its export files.
+ * @param sessionPath - The path to the session folder.
+ * @param exportFormats - The formats to export.
+ * @param recordedEndTime - The time at which the recording was stopped, relative to its start.
+ */
+export async function exportRecording(
+	sessionPath: string,
+	exportFormats: string[],
+	recordedEndTime?: number
+): Promise<void> {
+	const processedRecording = await processCsvFile(
+		path.join(sessionPath, SOURCE_FILE_NAME),
+		recordedEndTime
+	)
+	await finalizeRecording(sessionPath, processedRecording, exportFormats)
+}
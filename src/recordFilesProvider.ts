@@ -1,7 +1,368 @@
 import * as vscode from 'vscode'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import { getExportPath, createPath } from './utilities'
+import {
+	getExportPath,
+	createPath,
+	formatDisplayTime,
+	getConfig,
+	resolveExportPath,
+} from './utilities'
+import { readManifest } from './manifest'
+import { EXPORT_FILE_NAME, SOURCE_FILE_NAME } from './processing'
+import { readRecordingChapters } from './replay'
+import { isPinned } from './sessions'
+import type { Chapter, GitState, SessionManifest } from './types'
+
+/**
+ * Extensions of the files shown in the recordFiles view.
+ */
+const RECORDING_FILE_EXTENSIONS = ['.json', '.srt', '.vtt', '.csv', '.cast', '.html', '.md']
+
+/**
+ * Prefix of the session folders recorded without a custom folder name.
+ */
+const DEFAULT_FOLDER_NAME = 'vs-code-recorder'
+
+/**
+ * Matches the name of a session folder: the folder name, followed by the start time
+ * and, for edited sessions, by a suffix like `-edited`.
+ */
+const SESSION_FOLDER_PATTERN =
+	/^(.+)-(\d{4})_(\d{2})_(\d{2})-(\d{2})\.(\d{2})\.(\d{2})\.(\d+)(?:-.*)?$/
+
+/**
+ * Delay before refreshing the view after a file of the export path is created or deleted,
+ * so that an export writing several files refreshes it once.
+ */
+const REFRESH_DELAY = 300
+
+export type RecordFilesGrouping = 'none' | 'date' | 'name'
+export type RecordFilesSorting = 'date' | 'name' | 'duration' | 'size'
+
+/**
+ * The data of a session folder used to group, sort, filter and describe it.
+ */
+export interface SessionInfo {
+	name: string
+	/** The path to the session folder. */
+	path: string
+	/** The folder name chosen when recording, without the start time. */
+	folderName?: string
+	date: Date
+	/** The duration in milliseconds, from the manifest. */
+	duration?: number
+	/** The total size of the files in bytes. */
+	size: number
+	manifest?: SessionManifest
+	/** Whether the session is pinned, so that the retention policy never deletes it. */
+	pinned?: boolean
+}
+
+/**
+ * Parses the name of a session folder.
+ * @param name - The name of the session folder.
+ * @returns The folder name chosen when recording and the start time,
+ * or `undefined` if the name does not follow the session folder format.
+ */
+export function parseSessionFolderName(
+	name: string
+): { folderName: string; date: Date } | undefined {
+	const match = SESSION_FOLDER_PATTERN.exec(name)
+	if (!match) {
+		return
+	}
+	const [year, month, day, hours, minutes, seconds, milliseconds] = match
+		.slice(2)
+		.map(part => Number.parseInt(part))
+	return {
+		folderName: match[1],
+		date: new Date(year, month - 1, day, hours, minutes, seconds, milliseconds),
+	}
+}
+
+/**
+ * Checks if a folder of the export path is a session folder, containing recording files.
+ * @param folderPath - The path to the folder.
+ * @returns `true` if the folder is a session folder, `false` otherwise.
+ */
+export function isSessionFolder(folderPath: string): boolean {
+	return (
+		fs.statSync(folderPath).isDirectory() &&
+		fs
+			.readdirSync(folderPath)
+			.some(file => file === SOURCE_FILE_NAME || file.startsWith(`${EXPORT_FILE_NAME}.`))
+	)
+}
+
+/**
+ * Reads the data of a session folder. The date is the start time of the manifest
+ * or, when there is none, the one in the folder name or the modification time of the folder.
+ * @param folderPath - The path to the session folder.
+ * @returns The data of the session.
+ */
+export function readSessionInfo(folderPath: string): SessionInfo {
+	const name = path.basename(folderPath)
+	const manifest = readManifest(folderPath)
+	const parsedName = parseSessionFolderName(name)
+	const size = fs
+		.readdirSync(folderPath, { withFileTypes: true })
+		.filter(entry => entry.isFile())
+		.reduce((total, entry) => total + fs.statSync(path.join(folderPath, entry.name)).size, 0)
+	return {
+		name,
+		path: folderPath,
+		folderName: parsedName?.folderName,
+		date: manifest?.startTime
+			? new Date(manifest.startTime)
+			: (parsedName?.date ?? fs.statSync(folderPath).mtime),
+		duration: manifest?.duration,
+		size,
+		manifest,
+		pinned: isPinned(folderPath),
+	}
+}
+
+/**
+ * Checks if a session matches the filter of the view: its name, workspace, author,
+ * recorded files or git branch contain the filter text, ignoring the case.
+ * @param session - The session.
+ * @param filterText - The filter text.
+ * @returns `true` if the session matches, `false` otherwise.
+ */
+export function matchesFilter(session: SessionInfo, filterText: string): boolean {
+	const { manifest } = session
+	const text = filterText.trim().toLowerCase()
+	return [
+		session.name,
+		manifest?.workspace,
+		manifest?.recordedBy,
+		manifest?.git?.start?.branch,
+		manifest?.git?.end?.branch,
+		...(manifest?.files ?? []),
+	].some(value => value?.toLowerCase().includes(text))
+}
+
+/**
+ * Sorts sessions in place: newest, longest or largest first, or by name.
+ * Sessions with no known duration come last when sorting by duration.
+ * @param sessions - The sessions.
+ * @param sorting - The sort order.
+ * @returns The sorted sessions.
+ */
+export function sortSessions<T extends SessionInfo>(
+	sessions: T[],
+	sorting: RecordFilesSorting
+): T[] {
+	const compare: Record<RecordFilesSorting, (a: SessionInfo, b: SessionInfo) => number> = {
+		date: (a, b) => b.date.getTime() - a.date.getTime(),
+		name: (a, b) => a.name.localeCompare(b.name),
+		duration: (a, b) => (b.duration ?? -1) - (a.duration ?? -1),
+		size: (a, b) => b.size - a.size,
+	}
+	return sessions.sort((a, b) => compare[sorting](a, b) || b.name.localeCompare(a.name))
+}
+
+/**
+ * Gets the date group of a session: today, the six days before or older.
+ * @param date - The date of the session.
+ * @param now - The current date.
+ * @returns The label of the group.
+ */
+export function getDateGroup(date: Date, now = new Date()): string {
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+	if (date >= today) {
+		return vscode.l10n.t('Today')
+	}
+	const weekStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6)
+	return date >= weekStart ? vscode.l10n.t('This Week') : vscode.l10n.t('Older')
+}
+
+/**
+ * Groups sessions by date or by the folder name chosen when recording, keeping their order.
+ * The date groups are listed from the newest, the name groups by name with the unnamed ones last.
+ * @param sessions - The sorted sessions.
+ * @param grouping - How to group the sessions.
+ * @returns The label of each group and its sessions.
+ */
+export function groupSessions(
+	sessions: SessionInfo[],
+	grouping: Exclude<RecordFilesGrouping, 'none'>
+): [string, SessionInfo[]][] {
+	const unnamed = vscode.l10n.t('Unnamed')
+	const groups = new Map<string, SessionInfo[]>(
+		grouping === 'date'
+			? [vscode.l10n.t('Today'), vscode.l10n.t('This Week'), vscode.l10n.t('Older')].map(label => [
+					label,
+					[],
+				])
+			: []
+	)
+	for (const session of sessions) {
+		const label =
+			grouping === 'date'
+				? getDateGroup(session.date)
+				: session.folderName && session.folderName !== DEFAULT_FOLDER_NAME
+					? session.folderName
+					: unnamed
+		groups.set(label, [...(groups.get(label) ?? []), session])
+	}
+
+	const entries = [...groups].filter(([, groupItems]) => groupItems.length > 0)
+	if (grouping === 'name') {
+		entries.sort(([a], [b]) => Number(a === unnamed) - Number(b === unnamed) || a.localeCompare(b))
+	}
+	return entries
+}
+
+/**
+ * Formats a size in bytes, like `12.3 KB`.
+ * @param size - The size in bytes.
+ * @returns The formatted size.
+ */
+function formatSize(size: number): string {
+	const units = ['B', 'KB', 'MB', 'GB']
+	let unit = 0
+	while (size >= 1024 && unit < units.length - 1) {
+		size /= 1024
+		unit++
+	}
+	return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`
+}
+
+/**
+ * Checks if a file is a recording file shown in the recordFiles view.
+ * @param fileName - The name of the file.
+ * @returns `true` if the file is a recording file, `false` otherwise.
+ */
+function isRecordingFile(fileName: string): boolean {
+	return RECORDING_FILE_EXTENSIONS.includes(path.extname(fileName))
+}
+
+/**
+ * Formats a git state as `branch@commit`, with the short commit hash.
+ * @param gitState - The git state.
+ * @returns The formatted git state, or `undefined` if there is none.
+ */
+function formatGitState(gitState: GitState | undefined): string | undefined {
+	if (!gitState?.commit) {
+		return
+	}
+	const commit = gitState.commit.slice(0, 7)
+	return gitState.branch ? `${gitState.branch}@${commit}` : commit
+}
+
+/**
+ * Builds the tooltip of a session folder from its manifest.
+ * @param label - The name of the session folder.
+ * @param manifest - The manifest of the session.
+ * @returns The tooltip, listing the manifest fields.
+ */
+function buildSessionTooltip(label: string, manifest: SessionManifest): vscode.MarkdownString {
+	const fields: [string, string | undefined][] = [
+		[vscode.l10n.t('Recorded by'), manifest.recordedBy],
+		[vscode.l10n.t('Workspace'), manifest.workspace],
+		[vscode.l10n.t('Started'), manifest.startTime && new Date(manifest.startTime).toLocaleString()],
+		[vscode.l10n.t('Ended'), manifest.endTime && new Date(manifest.endTime).toLocaleString()],
+		[
+			vscode.l10n.t('Duration'),
+			manifest.duration !== undefined
+				? formatDisplayTime(Math.floor(manifest.duration / 1000))
+				: undefined,
+		],
+		[vscode.l10n.t('Edited from'), manifest.derivedFrom],
+		[vscode.l10n.t('Git at start'), formatGitState(manifest.git?.start)],
+		[vscode.l10n.t('Git at end'), formatGitState(manifest.git?.end)],
+		[vscode.l10n.t('Files'), manifest.files.join(', ')],
+		[vscode.l10n.t('Export formats'), manifest.exportSettings?.exportFormats.join(', ')],
+		[
+			vscode.l10n.t('Versions'),
+			`VS Code ${manifest.vscodeVersion}, VS Code Recorder ${manifest.extensionVersion}`,
+		],
+	]
+
+	const tooltip = new vscode.MarkdownString()
+	tooltip.appendMarkdown(`**${label}**\n\n`)
+	for (const [name, value] of fields) {
+		if (value) {
+			tooltip.appendMarkdown(`${name}: `)
+			tooltip.appendText(value)
+			tooltip.appendMarkdown('  \n')
+		}
+	}
+	return tooltip
+}
+
+/**
+ * Builds the description of a session folder: duration, recorded files, size and git branch.
+ * @param session - The data of the session.
+ * @returns The description.
+ */
+function buildSessionDescription({ manifest, duration, size }: SessionInfo): string {
+	const parts: string[] = []
+	if (duration !== undefined) {
+		parts.push(formatDisplayTime(Math.floor(duration / 1000)))
+	}
+	if (manifest?.files.length) {
+		parts.push(vscode.l10n.t('{count} files', { count: manifest.files.length }))
+	}
+	parts.push(formatSize(size))
+	const branch = manifest?.git?.end?.branch ?? manifest?.git?.start?.branch
+	if (branch) {
+		parts.push(branch)
+	}
+	return parts.join(' · ')
+}
+
+/**
+ * Builds the tree item of a session folder.
+ * @param session - The data of the session.
+ * @returns The tree item of the session folder.
+ */
+function buildSessionItem(session: SessionInfo): RecordFile {
+	const folder = new RecordFile(
+		session.name,
+		vscode.TreeItemCollapsibleState.Collapsed,
+		undefined,
+		true,
+		undefined,
+		session.path
+	)
+	folder.description = buildSessionDescription(session)
+	if (session.pinned) {
+		folder.iconPath = new vscode.ThemeIcon('pinned')
+		folder.contextValue = 'folder.pinned'
+	}
+	if (session.manifest) {
+		folder.tooltip = buildSessionTooltip(session.name, session.manifest)
+	}
+	return folder
+}
+
+/**
+ * Builds the tree item of a chapter, replaying the recording from the start of the chapter.
+ * @param chapter - The chapter.
+ * @param session - The tree item of the session folder.
+ * @returns The tree item of the chapter.
+ */
+function buildChapterItem(chapter: Chapter, session: RecordFile): RecordFile {
+	const item = new RecordFile(
+		chapter.title,
+		vscode.TreeItemCollapsibleState.None,
+		{
+			command: 'vs-code-recorder.replayRecording',
+			title: vscode.l10n.t('Replay from here'),
+			arguments: [session, chapter.startTime],
+		},
+		false,
+		session.label,
+		session.itemPath
+	)
+	item.iconPath = new vscode.ThemeIcon('bookmark')
+	item.contextValue = 'chapter'
+	item.description = formatDisplayTime(Math.floor(chapter.startTime / 1000))
+	return item
+}
 
 export class RecordFile extends vscode.TreeItem {
 	constructor(
@@ -9,7 +370,9 @@ export class RecordFile extends vscode.TreeItem {
 		public readonly collapsibleState: vscode.TreeItemCollapsibleState,
 		public readonly command?: vscode.Command,
 		public readonly isFolder: boolean = false,
-		public readonly parentPath?: string
+		public readonly parentPath?: string,
+		/** The path to the file or folder, resolved when it was listed. */
+		public readonly itemPath?: string
 	) {
 		super(label, collapsibleState)
 
@@ -20,28 +383,162 @@ export class RecordFile extends vscode.TreeItem {
 			// Set different icons based on file extension
 			if (label.endsWith('.json')) {
 				this.iconPath = new vscode.ThemeIcon('json')
-			} else if (label.endsWith('.srt')) {
+			} else if (label.endsWith('.srt') || label.endsWith('.vtt')) {
 				this.iconPath = new vscode.ThemeIcon('symbol-text')
 			} else if (label.endsWith('.csv')) {
 				this.iconPath = new vscode.ThemeIcon('table')
+			} else if (label.endsWith('.cast')) {
+				this.iconPath = new vscode.ThemeIcon('terminal')
+			} else if (label.endsWith('.html')) {
+				this.iconPath = new vscode.ThemeIcon('browser')
+			} else if (label.endsWith('.md')) {
+				this.iconPath = new vscode.ThemeIcon('markdown')
 			} else {
 				this.iconPath = new vscode.ThemeIcon('file')
 			}
-			this.contextValue = 'file'
+			this.contextValue = label === 'source.csv' ? 'sourceFile' : 'file'
 		}
 	}
 }
 
-export class RecordFilesProvider implements vscode.TreeDataProvider<RecordFile> {
+/**
+ * Asks the user how to group the recording folders, and saves it in the settings.
+ */
+export async function pickRecordFilesGrouping(): Promise<void> {
+	const items: (vscode.QuickPickItem & { value: RecordFilesGrouping })[] = [
+		{ label: vscode.l10n.t('No Grouping'), value: 'none' },
+		{
+			label: vscode.l10n.t('Date'),
+			detail: vscode.l10n.t('Today, This Week, Older'),
+			value: 'date',
+		},
+		{
+			label: vscode.l10n.t('Folder Name'),
+			detail: vscode.l10n.t('The name chosen when recording'),
+			value: 'name',
+		},
+	]
+	const item = await vscode.window.showQuickPick(items, {
+		title: vscode.l10n.t('Group Recordings By'),
+	})
+	if (item) {
+		await getConfig().update(
+			'appearance.recordFilesGroupBy',
+			item.value,
+			vscode.ConfigurationTarget.Global
+		)
+	}
+}
+
+/**
+ * Asks the user how to sort the recording folders, and saves it in the settings.
+ */
+export async function pickRecordFilesSorting(): Promise<void> {
+	const items: (vscode.QuickPickItem & { value: RecordFilesSorting })[] = [
+		{ label: vscode.l10n.t('Date'), detail: vscode.l10n.t('Newest first'), value: 'date' },
+		{ label: vscode.l10n.t('Name'), value: 'name' },
+		{ label: vscode.l10n.t('Duration'), detail: vscode.l10n.t('Longest first'), value: 'duration' },
+		{ label: vscode.l10n.t('Size'), detail: vscode.l10n.t('Largest first'), value: 'size' },
+	]
+	const item = await vscode.window.showQuickPick(items, {
+		title: vscode.l10n.t('Sort Recordings By'),
+	})
+	if (item) {
+		await getConfig().update(
+			'appearance.recordFilesSortBy',
+			item.value,
+			vscode.ConfigurationTarget.Global
+		)
+	}
+}
+
+export class RecordFilesProvider implements vscode.TreeDataProvider<RecordFile>, vscode.Disposable {
 	private _onDidChangeTreeData: vscode.EventEmitter<RecordFile | undefined | null> =
 		new vscode.EventEmitter<RecordFile | undefined | null>()
 	readonly onDidChangeTreeData: vscode.Event<RecordFile | undefined | null> =
 		this._onDidChangeTreeData.event
 
+	/** The text the recording folders are filtered by, empty to show all of them. */
+	filterText = ''
+	private groups = new Map<RecordFile, RecordFile[]>()
+	private watcher: vscode.FileSystemWatcher | undefined
+	private watchedPath: string | undefined
+	private refreshTimeout: NodeJS.Timeout | undefined
+	private configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+		if (event.affectsConfiguration('vsCodeRecorder')) {
+			this.refresh()
+		}
+	})
+
 	refresh(): void {
 		this._onDidChangeTreeData.fire(undefined)
 	}
 
+	/**
+	 * Refreshes the view when the export path changed since it was listed, like when the active
+	 * editor moves to another workspace folder, so that the view and its watcher follow it.
+	 */
+	refreshExportPath(): void {
+		const exportPath = resolveExportPath()
+		if (this.watchedPath !== undefined && exportPath !== this.watchedPath) {
+			this.refresh()
+		}
+	}
+
+	dispose(): void {
+		clearTimeout(this.refreshTimeout)
+		this.watcher?.dispose()
+		this.configurationListener.dispose()
+		this._onDidChangeTreeData.dispose()
+	}
+
+	/**
+	 * Watches the export path, refreshing the view when a file is created or deleted in it.
+	 * The watcher is replaced when the export path changes.
+	 * @param exportPath - The export path.
+	 */
+	private watch(exportPath: string): void {
+		if (exportPath === this.watchedPath) {
+			return
+		}
+		this.watcher?.dispose()
+		this.watchedPath = exportPath
+		this.watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(vscode.Uri.file(exportPath), '**'),
+			false,
+			true,
+			false
+		)
+		const scheduleRefresh = () => {
+			clearTimeout(this.refreshTimeout)
+			this.refreshTimeout = setTimeout(() => this.refresh(), REFRESH_DELAY)
+		}
+		this.watcher.onDidCreate(scheduleRefresh)
+		this.watcher.onDidDelete(scheduleRefresh)
+	}
+
+	/**
+	 * Builds the items of the session folders, grouped as set in the settings.
+	 * @param sessions - The sorted sessions.
+	 * @returns The group items or, when not grouping, the session folder items.
+	 */
+	private buildSessionItems(sessions: SessionInfo[]): RecordFile[] {
+		const grouping = getConfig().get<RecordFilesGrouping>('appearance.recordFilesGroupBy', 'none')
+		this.groups.clear()
+		if (grouping === 'none') {
+			return sessions.map(buildSessionItem)
+		}
+		return groupSessions(sessions, grouping).map(([label, groupItems]) => {
+			const group = new RecordFile(label, vscode.TreeItemCollapsibleState.Expanded)
+			group.id = `group:${grouping}:${label}`
+			group.iconPath = new vscode.ThemeIcon(grouping === 'date' ? 'calendar' : 'tag')
+			group.contextValue = 'group'
+			group.description = String(groupItems.length)
+			this.groups.set(group, groupItems.map(buildSessionItem))
+			return group
+		})
+	}
+
 	getTreeItem(element: RecordFile): vscode.TreeItem {
 		return element
 	}
@@ -58,48 +555,61 @@ export class RecordFilesProvider implements vscode.TreeDataProvider<RecordFile>
 
 			// If no element is provided, show both folders and files in the root
 			if (!element) {
+				this.watch(exportPath)
 				const items = fs.readdirSync(exportPath)
-				const folders: RecordFile[] = []
+				const sessions: SessionInfo[] = []
 				const files: RecordFile[] = []
+				const filterText = this.filterText.trim().toLowerCase()
 
 				for (const item of items) {
 					const itemPath = path.join(exportPath, item)
 					const isDirectory = fs.statSync(itemPath).isDirectory()
 
 					if (isDirectory) {
-						// Check if the directory contains recording files
-						const dirContents = fs.readdirSync(itemPath)
-						const hasRecordingFiles = dirContents.some(
-							file => file === 'source.csv' || file === 'recording.json' || file === 'recording.srt'
-						)
-						if (hasRecordingFiles) {
-							folders.push(
-								new RecordFile(item, vscode.TreeItemCollapsibleState.Collapsed, undefined, true)
-							)
+						if (isSessionFolder(itemPath)) {
+							const session = readSessionInfo(itemPath)
+							if (matchesFilter(session, filterText)) {
+								sessions.push(session)
+							}
 						}
-					} else if (item.endsWith('.json') || item.endsWith('.srt') || item.endsWith('.csv')) {
+					} else if (isRecordingFile(item) && item.toLowerCase().includes(filterText)) {
 						files.push(
-							new RecordFile(item, vscode.TreeItemCollapsibleState.None, {
-								command: 'vscode.open',
-								title: 'Open File',
-								arguments: [vscode.Uri.file(itemPath)],
-							})
+							new RecordFile(
+								item,
+								vscode.TreeItemCollapsibleState.None,
+								{
+									command: 'vscode.open',
+									title: 'Open File',
+									arguments: [vscode.Uri.file(itemPath)],
+								},
+								false,
+								undefined,
+								itemPath
+							)
 						)
 					}
 				}
 
-				// Sort folders and files in descending order (newest first)
-				folders.sort((a, b) => b.label.localeCompare(a.label))
+				// Sort the files in descending order (newest first)
 				files.sort((a, b) => b.label.localeCompare(a.label))
+				const sorting = getConfig().get<RecordFilesSorting>('appearance.recordFilesSortBy', 'date')
+
+				return [...this.buildSessionItems(sortSessions(sessions, sorting)), ...files]
+			}
 
-				return [...folders, ...files]
+			const groupItems = this.groups.get(element)
+			if (groupItems) {
+				return groupItems
 			}
 
-			// If an element is provided, show its contents
-			const folderPath = path.join(exportPath, element.label)
+			// If an element is provided, show its chapters and its contents
+			const folderPath = element.itemPath ?? path.join(exportPath, element.label)
+			const chapters = readRecordingChapters(folderPath).map(chapter =>
+				buildChapterItem(chapter, element)
+			)
 			const files = fs
 				.readdirSync(folderPath)
-				.filter(file => file.endsWith('.json') || file.endsWith('.srt') || file.endsWith('.csv'))
+				.filter(isRecordingFile)
 				.map(
 					file =>
 						new RecordFile(
@@ -111,10 +621,11 @@ export class RecordFilesProvider implements vscode.TreeDataProvider<RecordFile>
 								arguments: [vscode.Uri.file(path.join(folderPath, file))],
 							},
 							false,
-							element.label
+							element.label,
+							path.join(folderPath, file)
 						)
 				)
-			return files
+			return [...chapters, ...files]
 		} catch (err) {
 			console.error('Error reading directory:', err)
 			return []
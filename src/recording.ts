@@ -2,33 +2,48 @@ import * as fs from 'node:fs'
 import * as util from 'node:util'
 import * as path from 'node:path'
 import * as vscode from 'vscode'
-import * as readline from 'node:readline'
 import {
 	getEditorFileName,
-	escapeString,
 	getEditorLanguage,
 	notificationWithProgress,
 	generateFileName,
 	formatDisplayTime,
 	getExportPath,
 	logToOutput,
-	formatSrtTime,
 	getConfig,
-	removeDoubleQuotes,
-	unescapeString,
 	addToGitignore,
+	matchesGlobs,
+	isWorkspaceExportPath,
+	resolveExportPath,
+	getCurrentWorkspaceFolder,
 } from './utilities'
-import { type File, ChangeType, type CSVRowBuilder, type Change, type Recording } from './types'
-import { extContext, statusBarItem, actionsProvider } from './extension'
+import {
+	type File,
+	ChangeType,
+	type CSVRow,
+	type CSVRowBuilder,
+	type Recording,
+	TerminalEvent,
+} from './types'
+import { extContext, statusBarItem, pauseStatusBarItem, actionsProvider } from './extension'
+import { exportRecording } from './processing'
+import { buildCsvHeader, buildCsvLine } from './csv'
+import { isExcludedFile, maskLineChanges, mayContainSecret, redactText } from './redaction'
+import { writeStartManifest, writeStopManifest } from './manifest'
+import { applyRetentionPolicy } from './retention'
 
 export const commands = {
 	openSettings: 'vs-code-recorder.openSettings',
 	startRecording: 'vs-code-recorder.startRecording',
 	stopRecording: 'vs-code-recorder.stopRecording',
+	pauseRecording: 'vs-code-recorder.pauseRecording',
+	resumeRecording: 'vs-code-recorder.resumeRecording',
+	addMarker: 'vs-code-recorder.addMarker',
 }
 
 export const recording: Recording = {
 	isRecording: false,
+	isPaused: false,
 	timer: 0,
 	startDateTime: null,
 	endDateTime: null,
@@ -39,6 +54,35 @@ export const recording: Recording = {
 let intervalId: NodeJS.Timeout
 const fileQueue: File[] = []
 
+/**
+ * Files for which the current recording already holds a full text snapshot.
+ */
+const recordedFiles = new Set<string>()
+
+/**
+ * The line being edited, when it may turn into a secret. Its changes, and the rows queued after
+ * them, are held in the file queue until the line is left, so the secrets completed on the line
+ * are masked in every change before anything is written.
+ */
+interface PendingLine {
+	document: vscode.TextDocument
+	line: number
+	/** The offset of the line in the document. */
+	lineOffset: number
+	/** The text of the line after the last change. */
+	lineText: string
+	/** The rows of the changes and their entries in the file queue. */
+	changes: { row: CSVRow; entry: File }[]
+}
+
+let pendingLine: PendingLine | undefined
+
+/**
+ * Where the carets are after the last recorded content change, so that the selection change
+ * caused by the edit is not recorded: replaying the change already moves the caret there.
+ */
+let editedCarets: { document: vscode.TextDocument; offsets: number[] } | undefined
+
 /**
  * Builds a CSV row with the given parameters.
  *
@@ -47,67 +91,407 @@ const fileQueue: File[] = []
  * @param {CSVRowBuilder} rangeLength - The length of the changed range.
  * @param {CSVRowBuilder} text - The text of the change.
  * @param {string} type - The type of the change (optional, defaults to 'content').
+ * @param {number} time - The time of the change since the start of the recording (optional, defaults to now).
+ * @param {TerminalRow} terminal - The terminal and the event of a terminal row (optional).
  * @return {string} A CSV row string with the provided information.
  */
-export function buildCsvRow({
+export function buildCsvRow(builder: CSVRowBuilder): string | undefined {
+	if (builder.type === 'heading') {
+		return recording.startDateTime ? buildCsvHeader() : undefined
+	}
+	const row = getCsvRowValues(builder)
+	return row && buildCsvLine(row)
+}
+
+/**
+ * Gets the values of a CSV row, like `buildCsvRow`, with the secrets of the text masked.
+ *
+ * @param builder - The parameters of the row.
+ * @returns The values of the row, or `undefined` if not recording.
+ */
+function getCsvRowValues({
 	sequence,
 	rangeOffset,
 	rangeLength,
 	text,
 	type = ChangeType.CONTENT,
-}: CSVRowBuilder): string | undefined {
+	file = getEditorFileName(),
+	language = getEditorLanguage(),
+	time,
+	terminal,
+}: CSVRowBuilder): CSVRow | undefined {
 	if (!recording.startDateTime) {
 		return
 	}
 
-	if (type === 'heading') {
-		return 'Sequence,Time,File,RangeOffset,RangeLength,Text,Language,Type\n'
+	if (type === ChangeType.TAB || type === ChangeType.SNAPSHOT) {
+		recordedFiles.add(file)
+	}
+	return {
+		sequence,
+		time: time ?? new Date().getTime() - recording.startDateTime.getTime(),
+		file,
+		rangeOffset,
+		rangeLength,
+		text: redactText(text),
+		language,
+		type,
+		terminal,
 	}
-	const time = new Date().getTime() - recording.startDateTime.getTime()
-	return `${sequence},${time},"${getEditorFileName()}",${rangeOffset},${rangeLength},"${escapeString(
-		text
-	)}",${getEditorLanguage()},${type}\n`
 }
 
 /**
- * Checks if the current file being edited is within the configured export path.
+ * Checks if the current file being edited must not be recorded.
  * This is used to determine if the current file should be recorded or not.
  *
- * @returns {boolean} `true` if the current file is within the export path, `false` otherwise.
+ * @returns {boolean} `true` if the current file must not be recorded, `false` otherwise.
  */
-export function isCurrentFileExported(): boolean {
+export function isCurrentFileIgnored(): boolean {
 	const editor = vscode.window.activeTextEditor
-	const filename = editor?.document.fileName.replaceAll('\\', '/')
-	const exportPath = getExportPath()
-	if (!editor || !filename || !exportPath) {
+	if (!editor) {
+		return false
+	}
+	return isDocumentIgnored(editor.document)
+}
+
+/**
+ * Checks if a document must not be recorded: output panels, files within the export path,
+ * files excluded by the redaction settings and the ones filtered out by the recording
+ * include and exclude globs and language lists.
+ *
+ * @param document - The document to check.
+ * @returns {boolean} `true` if the document must not be recorded, `false` otherwise.
+ */
+export function isDocumentIgnored(document: vscode.TextDocument): boolean {
+	return (
+		document.uri.scheme === 'output' ||
+		isFileExported(document.fileName) ||
+		isExcludedFile(document) ||
+		!matchesRecordingFilters(document)
+	)
+}
+
+/**
+ * Checks if a document passes the recording filters of the settings.
+ * Empty include lists allow every file and language.
+ *
+ * @param document - The document to check.
+ * @returns {boolean} `true` if the document can be recorded, `false` otherwise.
+ */
+function matchesRecordingFilters(document: vscode.TextDocument): boolean {
+	const config = getConfig()
+	const include = config.get<string[]>('recording.include', [])
+	const includeLanguages = config.get<string[]>('recording.includeLanguages', [])
+	if (include.length > 0 && !matchesGlobs(document, include)) {
+		return false
+	}
+	if (includeLanguages.length > 0 && !includeLanguages.includes(document.languageId)) {
+		return false
+	}
+	return (
+		!matchesGlobs(document, config.get<string[]>('recording.exclude', [])) &&
+		!config.get<string[]>('recording.excludeLanguages', []).includes(document.languageId)
+	)
+}
+
+/**
+ * Checks if a file is within the configured export path of its workspace folder.
+ *
+ * @param fileName - The path of the file to check.
+ * @returns {boolean} `true` if the file is within the export path, `false` otherwise.
+ */
+export function isFileExported(fileName: string): boolean {
+	const filename = fileName.replaceAll('\\', '/')
+	if (!filename) {
+		return false
+	}
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fileName))
+	const exportPath = resolveExportPath(workspaceFolder ?? getCurrentWorkspaceFolder())
+	if (!exportPath) {
 		return false
 	}
 	return filename.startsWith(exportPath)
 }
 
+/**
+ * Checks if the changes of every workspace document should be recorded,
+ * instead of only the ones of the active text editor.
+ *
+ * @returns {boolean} `true` if all the documents should be recorded, `false` otherwise.
+ */
+function isRecordAllDocumentsEnabled(): boolean {
+	return getConfig().get<boolean>('recording.recordAllDocuments', false)
+}
+
+/**
+ * Checks if selection changes should be recorded.
+ *
+ * @returns {boolean} `true` if the selection recording is enabled, `false` otherwise.
+ */
+function isSelectionRecordingEnabled(): boolean {
+	return getConfig().get<boolean>('recording.recordSelections', false)
+}
+
+/**
+ * Checks if the commands run in the integrated terminal and their output should be recorded.
+ *
+ * @returns {boolean} `true` if the terminal recording is enabled, `false` otherwise.
+ */
+function isTerminalRecordingEnabled(): boolean {
+	return getConfig().get<boolean>('recording.recordTerminal', false)
+}
+
 const onChangeSubscription = vscode.workspace.onDidChangeTextDocument(event => {
-	if (!recording.isRecording) {
+	if (!recording.isRecording || recording.isPaused) {
+		return
+	}
+
+	if (isRecordAllDocumentsEnabled()) {
+		const { uri } = event.document
+		if (
+			(uri.scheme === 'file' || uri.scheme === 'untitled') &&
+			!isDocumentIgnored(event.document)
+		) {
+			recordDocumentChange(event)
+		}
 		return
 	}
 
-	if (isCurrentFileExported()) {
+	if (isCurrentFileIgnored()) {
 		return
 	}
 	const editor = vscode.window.activeTextEditor
 	if (editor && event.document === editor.document) {
-		for (const change of event.contentChanges) {
-			recording.sequence++
-			addToFileQueue(
-				buildCsvRow({
-					sequence: recording.sequence,
-					rangeOffset: change.rangeOffset,
-					rangeLength: change.rangeLength,
-					text: change.text,
-				})
-			)
-			appendToFile()
+		recordDocumentChange(event)
+	}
+})
+
+/**
+ * Adds the content changes of a document to the recording.
+ * The first time a document is changed without having been recorded yet, its full text
+ * is recorded as a snapshot instead, so it can be rebuilt independently of the other files.
+ * The changes of a single line that may turn into a secret are held until the line is left.
+ *
+ * @param event - The document change event.
+ */
+function recordDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+	const { document } = event
+	if (event.contentChanges.length === 0) {
+		return
+	}
+	// The offsets of the changes are before the edit, so the changes before each one shift it
+	editedCarets = {
+		document,
+		offsets: event.contentChanges.map(
+			change =>
+				event.contentChanges
+					.filter(other => other.rangeOffset < change.rangeOffset)
+					.reduce((shift, other) => shift + other.text.length - other.rangeLength, 0) +
+				change.rangeOffset +
+				change.text.length
+		),
+	}
+	const file = getEditorFileName(document)
+	const language = getEditorLanguage(document)
+
+	if (!recordedFiles.has(file)) {
+		flushPendingLine()
+		recording.sequence++
+		addToFileQueue(
+			buildCsvRow({
+				sequence: recording.sequence,
+				rangeOffset: 0,
+				rangeLength: 0,
+				text: document.getText(),
+				type: ChangeType.SNAPSHOT,
+				file,
+				language,
+			})
+		)
+		appendToFile()
+		return
+	}
+
+	const [firstChange] = event.contentChanges
+	const line = firstChange.range.start.line
+	const isLineChange =
+		event.contentChanges.length === 1 &&
+		firstChange.range.end.line === line &&
+		!/[\r\n]/.test(firstChange.text)
+	if (!isLineChange || pendingLine?.document !== document || pendingLine.line !== line) {
+		flushPendingLine()
+	}
+
+	for (const change of event.contentChanges) {
+		recording.sequence++
+		const row = getCsvRowValues({
+			sequence: recording.sequence,
+			rangeOffset: change.rangeOffset,
+			rangeLength: change.rangeLength,
+			text: change.text,
+			file,
+			language,
+		})
+		const entry = row && addToFileQueue(buildCsvLine(row))
+		if (isLineChange && row && entry) {
+			holdLineChange(document, line, row, entry)
 		}
 	}
+	appendToFile()
+}
+
+/**
+ * Holds the change of a line in the file queue, when the line may turn into a secret.
+ *
+ * @param document - The changed document.
+ * @param line - The changed line.
+ * @param row - The row of the change.
+ * @param entry - The entry of the row in the file queue.
+ */
+function holdLineChange(
+	document: vscode.TextDocument,
+	line: number,
+	row: CSVRow,
+	entry: File
+): void {
+	const { text, range } = document.lineAt(line)
+	if (!pendingLine) {
+		if (!mayContainSecret(text)) {
+			return
+		}
+		pendingLine = {
+			document,
+			line,
+			lineOffset: document.offsetAt(range.start),
+			lineText: text,
+			changes: [],
+		}
+	}
+	pendingLine.lineText = text
+	pendingLine.changes.push({ row, entry })
+}
+
+/**
+ * Masks the secrets of the line being edited in its held changes, then writes them
+ * with the rows queued after them.
+ */
+export function flushPendingLine(): void {
+	if (!pendingLine) {
+		return
+	}
+	const { changes, lineOffset, lineText } = pendingLine
+	pendingLine = undefined
+	const texts = maskLineChanges(
+		changes.map(({ row }) => row),
+		lineOffset,
+		lineText
+	)
+	changes.forEach(({ row, entry }, index) => {
+		if (texts[index] !== row.text) {
+			entry.content = buildCsvLine({ ...row, text: texts[index] })
+		}
+	})
+	appendToFile()
+}
+
+const onSelectionChangeSubscription = vscode.window.onDidChangeTextEditorSelection(event => {
+	if (!recording.isRecording || recording.isPaused) {
+		return
+	}
+	// Moving the cursor out of the line being edited completes it
+	if (
+		pendingLine &&
+		(event.textEditor.document !== pendingLine.document ||
+			event.selections[0].active.line !== pendingLine.line)
+	) {
+		flushPendingLine()
+	}
+	const carets = editedCarets
+	editedCarets = undefined
+	if (!isSelectionRecordingEnabled()) {
+		return
+	}
+
+	if (isCurrentFileIgnored()) {
+		return
+	}
+	const editor = vscode.window.activeTextEditor
+	if (editor && event.textEditor === editor) {
+		// Only the primary selection is recorded
+		const selection = event.selections[0]
+		// A collapsed cursor at the end of the last change was moved by the edit, not by the user
+		if (
+			selection.isEmpty &&
+			carets?.document === editor.document &&
+			carets.offsets.includes(editor.document.offsetAt(selection.active))
+		) {
+			return
+		}
+		const startOffset = editor.document.offsetAt(selection.start)
+		recording.sequence++
+		addToFileQueue(
+			buildCsvRow({
+				sequence: recording.sequence,
+				rangeOffset: startOffset,
+				rangeLength: editor.document.offsetAt(selection.end) - startOffset,
+				text: '',
+				type: ChangeType.SELECTION,
+			})
+		)
+		appendToFile()
+	}
+})
+
+/**
+ * Adds a terminal event to the recording, without file and language.
+ *
+ * @param terminal - The terminal the event comes from.
+ * @param event - The type of the terminal event.
+ * @param text - The command line, the output or the exit code.
+ */
+function recordTerminalEvent(terminal: vscode.Terminal, event: TerminalEvent, text: string): void {
+	recording.sequence++
+	addToFileQueue(
+		buildCsvRow({
+			sequence: recording.sequence,
+			rangeOffset: 0,
+			rangeLength: 0,
+			text,
+			type: ChangeType.TERMINAL,
+			file: '',
+			language: '',
+			terminal: { name: terminal.name, event },
+		})
+	)
+	appendToFile()
+}
+
+/**
+ * Records the command line of the commands run in a terminal with shell integration,
+ * then their output as it is written.
+ */
+const onTerminalExecutionStartSubscription = vscode.window.onDidStartTerminalShellExecution(
+	async event => {
+		if (!recording.isRecording || recording.isPaused || !isTerminalRecordingEnabled()) {
+			return
+		}
+		recordTerminalEvent(event.terminal, TerminalEvent.INPUT, event.execution.commandLine.value)
+		for await (const data of event.execution.read()) {
+			if (!recording.isRecording) {
+				break
+			}
+			if (!recording.isPaused) {
+				recordTerminalEvent(event.terminal, TerminalEvent.OUTPUT, data)
+			}
+		}
+	}
+)
+
+const onTerminalExecutionEndSubscription = vscode.window.onDidEndTerminalShellExecution(event => {
+	if (!recording.isRecording || recording.isPaused || !isTerminalRecordingEnabled()) {
+		return
+	}
+	recordTerminalEvent(event.terminal, TerminalEvent.EXIT, String(event.exitCode ?? ''))
 })
 
 /**
@@ -142,12 +526,14 @@ export async function startRecording(): Promise<void> {
 	// If the setting is enabled and the path is inside the workspace, add it to .gitignore
 	if (
 		getConfig().get<boolean>('export.addToGitignore') &&
-		getConfig().get<string>('export.exportPath')?.startsWith('${workspaceFolder}')
+		isWorkspaceExportPath(getConfig().get<string>('export.exportPath'))
 	) {
 		await addToGitignore()
 	}
 
 	recording.startDateTime = new Date()
+	// The recording stays in the export path of the folder it started in
+	recording.exportPath = exportPath
 
 	// Ask for folder name if enabled in settings
 	let customFolderName: string | undefined
@@ -172,12 +558,20 @@ export async function startRecording(): Promise<void> {
 	// Create the recording folder
 	const folderPath = path.dirname(path.join(exportPath, folderName))
 	createRecordingFolder(folderPath)
+	await writeStartManifest(folderPath, recording.startDateTime, getCurrentWorkspaceFolder())
 
 	recording.isRecording = true
+	recording.isPaused = false
 	recording.timer = 0
 	recording.endDateTime = null
 	recording.sequence = 0
+	recordedFiles.clear()
+	pendingLine = undefined
+	editedCarets = undefined
 	intervalId = setInterval(() => {
+		if (recording.isPaused) {
+			return
+		}
 		recording.timer++
 		updateStatusBarItem()
 	}, 1000)
@@ -195,9 +589,16 @@ export async function startRecording(): Promise<void> {
 		type: ChangeType.TAB,
 	}
 	addToFileQueue(buildCsvRow({ ...csvRow, type: 'heading' }))
-	addToFileQueue(buildCsvRow(csvRow))
+	if (!isCurrentFileIgnored()) {
+		addToFileQueue(buildCsvRow(csvRow))
+	}
 	appendToFile()
-	extContext.subscriptions.push(onChangeSubscription)
+	extContext.subscriptions.push(
+		onChangeSubscription,
+		onSelectionChangeSubscription,
+		onTerminalExecutionStartSubscription,
+		onTerminalExecutionEndSubscription
+	)
 	updateStatusBarItem()
 	actionsProvider.setRecordingState(true)
 	actionsProvider.setCurrentFile(vscode.window.activeTextEditor.document.fileName)
@@ -212,12 +613,21 @@ export function stopRecording(force = false): void {
 		notificationWithProgress(vscode.l10n.t('Not recording'))
 		return
 	}
+	flushPendingLine()
 	recording.isRecording = false
+	recording.isPaused = false
 	clearInterval(intervalId)
 	recording.timer = 0
-	const index = extContext.subscriptions.indexOf(onChangeSubscription)
-	if (index !== -1) {
-		extContext.subscriptions.splice(index, 1)
+	for (const subscription of [
+		onChangeSubscription,
+		onSelectionChangeSubscription,
+		onTerminalExecutionStartSubscription,
+		onTerminalExecutionEndSubscription,
+	]) {
+		const index = extContext.subscriptions.indexOf(subscription)
+		if (index !== -1) {
+			extContext.subscriptions.splice(index, 1)
+		}
 	}
 	updateStatusBarItem()
 	actionsProvider.setRecordingState(false)
@@ -225,245 +635,240 @@ export function stopRecording(force = false): void {
 		notificationWithProgress(vscode.l10n.t('Recording cancelled'))
 		logToOutput(vscode.l10n.t('Recording cancelled'), 'info')
 		recording.customFolderName = undefined
+		recording.exportPath = undefined
 		return
 	}
 	notificationWithProgress(vscode.l10n.t('Recording finished'))
 	logToOutput(vscode.l10n.t('Recording finished'), 'info')
 	recording.endDateTime = new Date()
-	processCsvFile().then(() => {
-		// Reset customFolderName after processing is complete
+	processRecording().then(() => {
+		// Reset customFolderName and exportPath after processing is complete
 		recording.customFolderName = undefined
+		recording.exportPath = undefined
 	})
 }
 
 /**
- * Appends the provided text to the file at the specified file path.
- * @param filePath - The path to the file to append to.
- * @param text - The text to append to the file.
- * @returns A Promise that resolves when the file has been appended to.
+ * Gets the path to the folder of the current recording session.
+ * @returns The session folder path, or `undefined` if there is no recording session.
  */
-const appendFileUtil = util.promisify(fs.appendFile)
+export function getSessionPath(): string | undefined {
+	const exportPath = recording.exportPath ?? getExportPath()
+	const sourceFileName = generateFileName(
+		recording.startDateTime,
+		false,
+		recording.customFolderName
+	)
+	if (!exportPath || !sourceFileName) {
+		return
+	}
+	return path.join(exportPath, path.dirname(sourceFileName))
+}
 
 /**
- * Appends data from the file queue to the appropriate file in the workspace.
+ * Processes the source file of the stopped recording and generates the necessary output files.
  */
-export async function appendToFile(): Promise<void> {
-	const exportPath = getExportPath()
-	if (!exportPath) {
-		stopRecording(true)
+async function processRecording(): Promise<void> {
+	if (!validateRecordingState()) {
 		return
 	}
 
-	while (fileQueue.length) {
-		const filePath = path.join(exportPath, fileQueue[0].name)
-		await addToFile(filePath, fileQueue[0].content)
+	const sessionPath = getSessionPath()
+	if (!sessionPath || !recording.startDateTime || !recording.endDateTime) {
+		return
+	}
+	await writeStopManifest(sessionPath, recording.endDateTime)
+
+	const exportFormats = getConfig().get<string[]>('export.exportFormats', [])
+	if (exportFormats.length === 0) {
+		logToOutput(vscode.l10n.t('No export formats specified'), 'info')
+		vscode.window.showWarningMessage(vscode.l10n.t('No export formats specified'))
+		return
 	}
-}
 
-/**
- * Appends text to a file at the specified file path.
- * @param filePath - The path to the file.
- * @param text - The text to append.
- */
-async function addToFile(filePath: string, text: string): Promise<void> {
 	try {
-		// Ensure the directory exists
-		const directory = path.dirname(filePath)
-		if (!fs.existsSync(directory)) {
-			fs.mkdirSync(directory, { recursive: true })
-		}
-		await appendFileUtil(filePath, text)
-		fileQueue.shift()
+		// Make sure every recorded change is in the source file before processing it
+		await appendToFile()
+		await exportRecording(
+			sessionPath,
+			exportFormats,
+			recording.endDateTime.getTime() - recording.startDateTime.getTime()
+		)
 	} catch (err) {
-		console.error('Failed to append to file:', err)
+		vscode.window.showErrorMessage(`Error processing recording: ${err}`)
+		return
+	}
+
+	// The retention policy is applied apart from the export, so that an error deleting
+	// the other recordings does not fail it. The session just exported is kept
+	try {
+		await applyRetentionPolicy(path.dirname(sessionPath), [sessionPath])
+	} catch (err) {
+		logToOutput(`Error applying the retention policy: ${err}`, 'error')
 	}
 }
 
 /**
- * Appends an SRT line to the file queue for the previous change.
- *
- * This function is responsible for generating the SRT format line for the previous change and adding it to the file queue.
- * It checks if the SRT export format is enabled, and if so, it generates the SRT line for the previous change and adds it to the file queue.
- *
- * @param processedChanges - An array of processed changes.
- * @param i - The index of the current change in the processedChanges array.
- * @param exportInSrt - A boolean indicating whether the SRT export format is enabled.
+ * Pauses the recording. Changes made while paused are not recorded.
  */
-function addToSRTFile(processedChanges: Change[], i: number, exportInSrt: boolean) {
-	if (!exportInSrt) {
+export function pauseRecording(): void {
+	if (!recording.isRecording) {
+		notificationWithProgress(vscode.l10n.t('Not recording'))
 		return
 	}
-	if (i === 0) {
+	if (recording.isPaused) {
+		notificationWithProgress(vscode.l10n.t('Recording already paused'))
 		return
 	}
+	// The line may change while paused, so it is completed
+	flushPendingLine()
+	recording.sequence++
 	addToFileQueue(
-		addSrtLine(
-			processedChanges[i - 1].sequence,
-			processedChanges[i - 1].startTime,
-			processedChanges[i - 1].endTime,
-			JSON.stringify({
-				text: processedChanges[i - 1].text,
-				file: processedChanges[i - 1].file,
-				language: processedChanges[i - 1].language,
-			})
-		),
-		'srt',
-		true
+		buildCsvRow({
+			sequence: recording.sequence,
+			rangeOffset: 0,
+			rangeLength: 0,
+			text: '',
+			type: ChangeType.PAUSE,
+		})
 	)
+	appendToFile()
+	recording.isPaused = true
+	updateStatusBarItem()
+	actionsProvider.setPausedState(true)
+	notificationWithProgress(vscode.l10n.t('Recording paused'))
+	logToOutput(vscode.l10n.t('Recording paused'), 'info')
 }
 
 /**
- * Returns the new text content based on the change type and the previous change.
- * @param type - The type of the change.
- * @param text - The text of the change.
- * @param previousChange - The previous change.
- * @param rangeOffset - The offset of the range.
- * @param rangeLength - The length of the range.
- */
-function getNewTextContent(
-	type: string,
-	text: string,
-	previousChange: Change | null,
-	rangeOffset: number,
-	rangeLength: number
-): string {
-	if (type === ChangeType.TAB) {
-		return text
-	}
-	if (!previousChange) {
-		return ''
-	}
-	return getUpdatedText(previousChange.text, rangeOffset, rangeLength, text)
-}
-
-/**
- * Processes a single CSV line and returns the processed change
+ * Resumes a paused recording.
  */
-async function processCSVLine(line: string, previousChange: Change | null): Promise<Change | null> {
-	const lineArr = line.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
-
-	if (Number.isNaN(Number.parseInt(lineArr[0]))) {
-		return null
+export function resumeRecording(): void {
+	if (!recording.isRecording) {
+		notificationWithProgress(vscode.l10n.t('Not recording'))
+		return
 	}
-
-	const time = Number.parseInt(lineArr[1])
-	const file = removeDoubleQuotes(lineArr[2])
-	const rangeOffset = Number.parseInt(lineArr[3])
-	const rangeLength = Number.parseInt(lineArr[4])
-	const text = unescapeString(removeDoubleQuotes(lineArr[5]))
-	const language = lineArr[6]
-	const type = lineArr[7]
-
-	const newText = getNewTextContent(type, text, previousChange, rangeOffset, rangeLength)
-
-	/**
-	 * Skip exporting changes with the same values to the previous change.
-	 */
-	if (
-		previousChange &&
-		time === previousChange.startTime &&
-		file === previousChange.file &&
-		newText === previousChange.text &&
-		language === previousChange.language
-	) {
-		return null
+	if (!recording.isPaused) {
+		notificationWithProgress(vscode.l10n.t('Recording is not paused'))
+		return
 	}
+	recording.isPaused = false
+	recording.sequence++
+	addToFileQueue(
+		buildCsvRow({
+			sequence: recording.sequence,
+			rangeOffset: 0,
+			rangeLength: 0,
+			text: '',
+			type: ChangeType.RESUME,
+		})
+	)
 
-	return {
-		sequence: previousChange ? previousChange.sequence + 1 : 1,
-		file,
-		startTime: time,
-		endTime: 0,
-		language,
-		text: newText,
+	// Files may have changed while paused, so their snapshots are recorded again
+	recordedFiles.clear()
+	const editor = vscode.window.activeTextEditor
+	if (editor && !isCurrentFileIgnored()) {
+		recording.sequence++
+		addToFileQueue(
+			buildCsvRow({
+				sequence: recording.sequence,
+				rangeOffset: 0,
+				rangeLength: 0,
+				text: editor.document.getText(),
+				type: ChangeType.TAB,
+			})
+		)
+		actionsProvider.setCurrentFile(editor.document.fileName)
 	}
+	appendToFile()
+	updateStatusBarItem()
+	actionsProvider.setPausedState(false)
+	notificationWithProgress(vscode.l10n.t('Recording resumed'))
+	logToOutput(vscode.l10n.t('Recording resumed'), 'info')
 }
 
 /**
- * Returns the updated text content based on the previous text, range offset, range length, and new text.
- * @param previousText - The previous text.
- * @param rangeOffset - The offset of the range.
- * @param rangeLength - The length of the range.
- * @param newText - The new text.
- */
-function getUpdatedText(
-	previousText: string,
-	rangeOffset: number,
-	rangeLength: number,
-	newText: string
-): string {
-	const textArray = previousText.split('')
-	textArray.splice(rangeOffset, rangeLength, newText)
-	return textArray.join('')
-}
-
-/**
- * Processes the CSV file and generates the necessary output files.
+ * Adds a chapter marker at the current time of the recording, named by the given title
+ * or by the title entered by the user.
+ * @param title - The title of the chapter, for example from the arguments of a keybinding.
  */
-async function processCsvFile(): Promise<void> {
-	if (!validateRecordingState()) {
+export async function addMarker(title?: string): Promise<void> {
+	if (!recording.isRecording || !recording.startDateTime) {
+		notificationWithProgress(vscode.l10n.t('Not recording'))
 		return
 	}
-
-	const exportFormats = getConfig().get<string[]>('export.exportFormats', [])
-	if (exportFormats.length === 0) {
-		logToOutput(vscode.l10n.t('No export formats specified'), 'info')
-		vscode.window.showWarningMessage(vscode.l10n.t('No export formats specified'))
+	// The marker is placed when the command is run, not when its title is confirmed
+	const time = new Date().getTime() - recording.startDateTime.getTime()
+	const startDateTime = recording.startDateTime
+	const markerTitle = (
+		typeof title === 'string'
+			? title
+			: await vscode.window.showInputBox({
+					prompt: vscode.l10n.t('Enter the title of the chapter'),
+					placeHolder: vscode.l10n.t('Now we add the test'),
+				})
+	)?.trim()
+	// The recording may have been stopped while the title was entered
+	if (!markerTitle || !recording.isRecording || recording.startDateTime !== startDateTime) {
 		return
 	}
+	recording.sequence++
+	addToFileQueue(
+		buildCsvRow({
+			sequence: recording.sequence,
+			rangeOffset: 0,
+			rangeLength: 0,
+			text: markerTitle,
+			type: ChangeType.MARKER,
+			time,
+		})
+	)
+	appendToFile()
+	notificationWithProgress(vscode.l10n.t('Chapter added: {title}', { title: markerTitle }))
+	logToOutput(vscode.l10n.t('Chapter added: {title}', { title: markerTitle }), 'info')
+}
 
-	const exportPath = getExportPath()
-	if (!exportPath) {
-		return
-	}
+/**
+ * Appends the provided text to the file at the specified file path.
+ * @param filePath - The path to the file to append to.
+ * @param text - The text to append to the file.
+ * @returns A Promise that resolves when the file has been appended to.
+ */
+const appendFileUtil = util.promisify(fs.appendFile)
 
-	if (!recording.startDateTime) {
+/**
+ * Appends data from the file queue to the appropriate file in the workspace.
+ * The entries from the first held change of the line being edited are kept until the line is left.
+ */
+export async function appendToFile(): Promise<void> {
+	const exportPath = recording.exportPath ?? getExportPath()
+	if (!exportPath) {
+		stopRecording(true)
 		return
 	}
 
-	// Use the same custom folder name for reading the source file
-	const sourceFileName = generateFileName(
-		recording.startDateTime,
-		false,
-		recording.customFolderName
-	)
-	if (!sourceFileName) {
-		return
+	while (fileQueue.length && fileQueue[0] !== pendingLine?.changes[0].entry) {
+		const filePath = path.join(exportPath, fileQueue[0].name)
+		await addToFile(filePath, fileQueue[0].content)
 	}
+}
 
-	const filePath = path.join(exportPath, `${sourceFileName}.csv`)
-
+/**
+ * Appends text to a file at the specified file path.
+ * @param filePath - The path to the file.
+ * @param text - The text to append.
+ */
+async function addToFile(filePath: string, text: string): Promise<void> {
 	try {
-		if (!fs.existsSync(filePath)) {
-			throw new Error(`Source file not found: ${filePath}`)
-		}
-
-		const processedChanges: Change[] = []
-
-		const rl = readline.createInterface({
-			input: fs.createReadStream(filePath),
-			crlfDelay: Number.POSITIVE_INFINITY,
-		})
-
-		for await (const line of rl) {
-			const previousChange = processedChanges[processedChanges.length - 1]
-			const change = await processCSVLine(line, previousChange)
-
-			if (change) {
-				if (previousChange) {
-					previousChange.endTime = change.startTime
-					if (exportFormats.includes('SRT')) {
-						addToSRTFile(processedChanges, processedChanges.length, true)
-					}
-				}
-				processedChanges.push(change)
-			}
+		// Ensure the directory exists
+		const directory = path.dirname(filePath)
+		if (!fs.existsSync(directory)) {
+			fs.mkdirSync(directory, { recursive: true })
 		}
-
-		finalizeRecording(processedChanges, exportFormats)
-		rl.close()
+		await appendFileUtil(filePath, text)
+		fileQueue.shift()
 	} catch (err) {
-		vscode.window.showErrorMessage(`Error processing recording: ${err}`)
+		console.error('Failed to append to file:', err)
 	}
 }
 
@@ -484,46 +889,16 @@ function validateRecordingState(): boolean {
 	return true
 }
 
-function finalizeRecording(processedChanges: Change[], exportFormats: string[]): void {
-	const lastChange = processedChanges[processedChanges.length - 1]
-	if (lastChange && recording.endDateTime && recording.startDateTime) {
-		lastChange.endTime = recording.endDateTime.getTime() - recording.startDateTime.getTime()
-		if (exportFormats.includes('SRT')) {
-			addToSRTFile(processedChanges, processedChanges.length, true)
-		}
-	}
-
-	if (exportFormats.includes('JSON')) {
-		addToFileQueue(JSON.stringify(processedChanges), 'json', true)
-	}
-	appendToFile().then(() => {
-		// Refresh the recordFiles view after export is complete
-		vscode.commands.executeCommand('vs-code-recorder.refreshRecordFiles')
-	})
-}
-
-/**
- * Adds a line to the SRT file format.
- * @param sequence - The sequence number of the change.
- * @param start - The start time of the change.
- * @param end - The end time of the change.
- * @param text - The text of the change.
- * @returns A string representing a line in the SRT file format.
- */
-function addSrtLine(sequence: number, start: number, end: number, text: string): string {
-	return `${sequence}\n${formatSrtTime(start)} --> ${formatSrtTime(end)}\n${text}\n\n`
-}
-
 /**
  * Adds content to the file queue.
  * @param content - The content to add.
  * @param fileExtension - The file extension (optional, defaults to 'csv').
+ * @returns The entry added to the queue, or `undefined` if there is nothing to add.
  */
 export function addToFileQueue(
 	content: string | undefined,
-	fileExtension = 'csv',
-	isExport = false
-): void {
+	fileExtension = 'csv'
+): File | undefined {
 	if (!content) {
 		return
 	}
@@ -531,14 +906,16 @@ export function addToFileQueue(
 		return
 	}
 	// Use the same custom name throughout the recording session
-	const fileName = generateFileName(recording.startDateTime, isExport, recording.customFolderName)
+	const fileName = generateFileName(recording.startDateTime, false, recording.customFolderName)
 	if (!fileName) {
 		return
 	}
-	fileQueue.push({
+	const entry = {
 		name: `${fileName}.${fileExtension}`,
 		content: content,
-	})
+	}
+	fileQueue.push(entry)
+	return entry
 }
 
 /**
@@ -560,7 +937,18 @@ export function updateStatusBarItem(): void {
 			statusBarItem.tooltip = vscode.l10n.t('Stop Recording')
 		}
 		statusBarItem.command = commands.stopRecording
+		if (recording.isPaused) {
+			pauseStatusBarItem.text = '$(debug-continue)'
+			pauseStatusBarItem.tooltip = vscode.l10n.t('Resume Recording')
+			pauseStatusBarItem.command = commands.resumeRecording
+		} else {
+			pauseStatusBarItem.text = '$(debug-pause)'
+			pauseStatusBarItem.tooltip = vscode.l10n.t('Pause Recording')
+			pauseStatusBarItem.command = commands.pauseRecording
+		}
+		pauseStatusBarItem.show()
 	} else {
+		pauseStatusBarItem.hide()
 		if (getConfig().get('appearance.minimalMode') === true) {
 			statusBarItem.text = '$(circle-large-filled)'
 		} else {
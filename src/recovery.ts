@@ -0,0 +1,110 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { EXPORT_FILE_NAME, SOURCE_FILE_NAME, exportRecording } from './processing'
+import { getSessionPath, recording } from './recording'
+import { readManifest } from './manifest'
+import { includesRecordingInProgress } from './sessions'
+import { getConfig, logToOutput, resolveExportPaths } from './utilities'
+
+/**
+ * Checks if a session folder has a source CSV file but none of the export files,
+ * which happens when VS Code is closed or reloaded while recording.
+ * Sessions stopped while no export format was selected have the end time in their manifest,
+ * so they are not unfinished.
+ * @param sessionPath - The path to the session folder.
+ * @returns `true` if the session was never processed, `false` otherwise.
+ */
+export function isUnfinishedSession(sessionPath: string): boolean {
+	const files = fs.readdirSync(sessionPath)
+	return (
+		files.includes(SOURCE_FILE_NAME) &&
+		!files.some(file => file.startsWith(`${EXPORT_FILE_NAME}.`)) &&
+		!readManifest(sessionPath)?.endTime
+	)
+}
+
+/**
+ * Finds the session folders under the export path that were never processed.
+ * @param exportPath - The export path.
+ * @returns The paths to the unfinished session folders.
+ */
+export function findUnfinishedSessions(exportPath: string): string[] {
+	if (!fs.existsSync(exportPath)) {
+		return []
+	}
+	const currentSessionPath = recording.isRecording ? getSessionPath() : undefined
+	return fs
+		.readdirSync(exportPath)
+		.map(item => path.join(exportPath, item))
+		.filter(
+			itemPath =>
+				itemPath !== currentSessionPath &&
+				fs.statSync(itemPath).isDirectory() &&
+				isUnfinishedSession(itemPath)
+		)
+}
+
+/**
+ * Regenerates the export files of a session folder from its source CSV file alone.
+ * @param sessionPath - The path to the session folder.
+ * @returns `true` if the export files were generated, `false` otherwise.
+ */
+export async function processSourceCsv(sessionPath: string): Promise<boolean> {
+	if (includesRecordingInProgress([sessionPath])) {
+		return false
+	}
+
+	const exportFormats = getConfig().get<string[]>('export.exportFormats', [])
+	if (exportFormats.length === 0) {
+		logToOutput(vscode.l10n.t('No export formats specified'), 'info')
+		vscode.window.showWarningMessage(vscode.l10n.t('No export formats specified'))
+		return false
+	}
+
+	await exportRecording(sessionPath, exportFormats)
+	logToOutput(
+		vscode.l10n.t('Recording processed: {name}', { name: path.basename(sessionPath) }),
+		'success'
+	)
+	return true
+}
+
+/**
+ * Looks for recordings left unfinished by a crash or a window reload in the export path of each
+ * workspace folder and offers to process them.
+ * The export paths are resolved without asking the user to fix them, as this runs on activation.
+ */
+export async function recoverUnfinishedRecordings(): Promise<void> {
+	const unfinishedSessions = resolveExportPaths().flatMap(findUnfinishedSessions)
+	if (unfinishedSessions.length === 0) {
+		return
+	}
+	logToOutput(
+		vscode.l10n.t('Found {count} unfinished recordings', { count: unfinishedSessions.length }),
+		'info'
+	)
+
+	const result = await vscode.window.showInformationMessage(
+		vscode.l10n.t('Found {count} unfinished recordings. Do you want to process them now?', {
+			count: unfinishedSessions.length,
+		}),
+		vscode.l10n.t('Yes'),
+		vscode.l10n.t('No')
+	)
+	if (result !== vscode.l10n.t('Yes')) {
+		return
+	}
+
+	for (const sessionPath of unfinishedSessions) {
+		try {
+			if (!(await processSourceCsv(sessionPath))) {
+				return
+			}
+		} catch (err) {
+			const errorMessage = `Error processing ${path.basename(sessionPath)}: ${err}`
+			vscode.window.showErrorMessage(errorMessage)
+			logToOutput(errorMessage, 'error')
+		}
+	}
+}
@@ -0,0 +1,213 @@
+import * as vscode from 'vscode'
+import { getConfig, logToOutput, matchesGlobs } from './utilities'
+
+const MASK_CHARACTER = '*'
+
+/**
+ * Detectors of common secrets: private keys, cloud and service tokens,
+ * and the values assigned to keys named like a secret.
+ */
+const SECRET_DETECTORS = [
+	/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+	/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+	/\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+	/\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+	/\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g,
+	/\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+	/\bsk-[A-Za-z0-9_-]{20,}\b/g,
+	/\bAIza[0-9A-Za-z_-]{35}\b/g,
+	/\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+	/(?<=\b[\w-]*(?:api[_-]?key|secret|token|password|passwd)["']?\s*[:=]\s*["']?)[^\s"'`,;]{8,}/gi,
+]
+
+const EMAIL_DETECTOR = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+
+/**
+ * Detectors of the beginning of the common secrets: the keys named like a secret
+ * followed by an assignment, and the prefixes of the tokens.
+ */
+const SECRET_START_DETECTORS = [
+	/\b[\w-]*(?:api[_-]?key|secret|token|password|passwd)["']?\s*[:=]/i,
+	/\b(?:AKIA|ASIA|gh[pousr]_|github_pat_|xox[abprs]-|[sr]k_(?:live|test)_|sk-|AIza|eyJ)/,
+]
+
+/**
+ * The custom patterns last compiled, so they are not compiled again for each change.
+ */
+let customDetectors: { source: string; detectors: RegExp[] } = { source: '[]', detectors: [] }
+
+/**
+ * A range of text detected as a secret.
+ */
+interface SecretRange {
+	offset: number
+	length: number
+}
+
+/**
+ * A change replacing a range of a line with a text, with the offsets of the document.
+ */
+export interface LineChange {
+	rangeOffset: number
+	rangeLength: number
+	text: string
+}
+
+/**
+ * Compiles the custom patterns of the settings, skipping and logging the invalid ones.
+ * @param patterns - The regular expressions of the settings.
+ * @returns The compiled detectors.
+ */
+function getCustomDetectors(patterns: string[]): RegExp[] {
+	const source = JSON.stringify(patterns)
+	if (source !== customDetectors.source) {
+		const detectors: RegExp[] = []
+		for (const pattern of patterns) {
+			try {
+				detectors.push(new RegExp(pattern, 'g'))
+			} catch (err) {
+				logToOutput(
+					vscode.l10n.t('Invalid redaction pattern {pattern}: {error}', {
+						pattern,
+						error: String(err),
+					}),
+					'error'
+				)
+			}
+		}
+		customDetectors = { source, detectors }
+	}
+	return customDetectors.detectors
+}
+
+/**
+ * Gets the detectors enabled in the settings.
+ * @returns The enabled detectors.
+ */
+function getDetectors(): RegExp[] {
+	const config = getConfig()
+	const detectors = config.get<boolean>('redaction.detectSecrets', true)
+		? [...SECRET_DETECTORS]
+		: []
+	if (config.get<boolean>('redaction.maskEmailAddresses', false)) {
+		detectors.push(EMAIL_DETECTOR)
+	}
+	return detectors.concat(getCustomDetectors(config.get<string[]>('redaction.customPatterns', [])))
+}
+
+/**
+ * Finds the secrets in a text with the enabled detectors.
+ * @param text - The text to search.
+ * @returns The ranges of the secrets, relative to the text.
+ */
+export function findSecrets(text: string): SecretRange[] {
+	const secrets: SecretRange[] = []
+	for (const detector of getDetectors()) {
+		for (const match of text.matchAll(detector)) {
+			if (match[0].length > 0) {
+				secrets.push({ offset: match.index, length: match[0].length })
+			}
+		}
+	}
+	return secrets
+}
+
+/**
+ * Builds the placeholder of a secret, with the same length so the offsets of the following
+ * changes stay valid. Line breaks are kept, so the lines of the file are not merged.
+ * @param secret - The secret to mask.
+ * @returns The masked placeholder.
+ */
+export function maskSecret(secret: string): string {
+	return secret.replace(/[^\r\n]/g, MASK_CHARACTER)
+}
+
+/**
+ * Masks the secrets found in a text.
+ * @param text - The text to redact.
+ * @returns The text, with each secret replaced by a placeholder of the same length.
+ */
+export function redactText(text: string): string {
+	let redactedText = text
+	for (const { offset, length } of findSecrets(text)) {
+		redactedText =
+			redactedText.slice(0, offset) +
+			maskSecret(text.slice(offset, offset + length)) +
+			redactedText.slice(offset + length)
+	}
+	return redactedText
+}
+
+/**
+ * Checks if a line may turn into a secret as it is typed, so its changes must be checked
+ * against the whole line before they are recorded: when it holds a key named like a secret,
+ * the beginning of a token or of an email address, or when custom patterns are set,
+ * as what they match can't be told before it is complete.
+ * @param lineText - The text of the line.
+ * @returns `true` if the line may hold a secret, `false` otherwise.
+ */
+export function mayContainSecret(lineText: string): boolean {
+	const config = getConfig()
+	return (
+		config.get<string[]>('redaction.customPatterns', []).length > 0 ||
+		(config.get<boolean>('redaction.maskEmailAddresses', false) && lineText.includes('@')) ||
+		(config.get<boolean>('redaction.detectSecrets', true) &&
+			SECRET_START_DETECTORS.some(detector => detector.test(lineText)))
+	)
+}
+
+/**
+ * Masks the characters inserted by the changes of a line that end up in a secret of the line,
+ * so that a secret typed a character at a time, or after its key, is masked in every change.
+ * @param changes - The changes of the line, in order.
+ * @param lineOffset - The offset of the line in the document.
+ * @param lineText - The text of the line after the changes.
+ * @returns The text of each change, with the characters of the secrets masked.
+ */
+export function maskLineChanges(
+	changes: LineChange[],
+	lineOffset: number,
+	lineText: string
+): string[] {
+	const texts = changes.map(change => change.text.split(''))
+	const initialLength = changes.reduce(
+		(length, change) => length - change.text.length + change.rangeLength,
+		lineText.length
+	)
+	// The change and the index in its text each character of the line comes from,
+	// or `undefined` for the characters written before the changes
+	const origins: ({ change: number; index: number } | undefined)[] = Array(
+		Math.max(initialLength, 0)
+	).fill(undefined)
+	changes.forEach((change, changeIndex) => {
+		origins.splice(
+			change.rangeOffset - lineOffset,
+			change.rangeLength,
+			...texts[changeIndex].map((_, index) => ({ change: changeIndex, index }))
+		)
+	})
+	if (origins.length !== lineText.length) {
+		// The changes don't rebuild the line, so they are all masked if the line holds a secret
+		const hasSecret = findSecrets(lineText).length > 0
+		return changes.map(change => (hasSecret ? maskSecret(change.text) : change.text))
+	}
+
+	for (const { offset, length } of findSecrets(lineText)) {
+		for (const origin of origins.slice(offset, offset + length)) {
+			if (origin) {
+				texts[origin.change][origin.index] = maskSecret(texts[origin.change][origin.index])
+			}
+		}
+	}
+	return texts.map(characters => characters.join(''))
+}
+
+/**
+ * Checks if a document matches the file exclusions of the redaction settings,
+ * so it must never be recorded.
+ * @param document - The document to check.
+ * @returns `true` if the document is excluded, `false` otherwise.
+ */
+export function isExcludedFile(document: vscode.TextDocument): boolean {
+	return matchesGlobs(document, getConfig().get<string[]>('redaction.excludedFiles', []))
+}
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { contributes } from '../package.json'
+import type { ProcessedRecording } from './types'
+import { EXPORT_FILE_NAME, SOURCE_FILE_NAME, finalizeRecording, processCsvFile } from './processing'
+import { readRecordingChanges, readRecordingChapters, readTerminalChanges } from './replay'
+import { includesRecordingInProgress } from './sessions'
+import { getConfig, logToOutput } from './utilities'
+
+/**
+ * The export formats, as listed in the settings.
+ */
+const EXPORT_FORMATS =
+	contributes.configuration.properties['vsCodeRecorder.export.exportFormats'].items.enum
+
+/**
+ * The main file written by each export format.
+ */
+const EXPORT_FORMAT_FILES: Record<string, string> = {
+	JSON: `${EXPORT_FILE_NAME}.json`,
+	JSON_DIFF: `${EXPORT_FILE_NAME}.diff.json`,
+	SRT: `${EXPORT_FILE_NAME}.srt`,
+	VTT: `${EXPORT_FILE_NAME}.vtt`,
+	ASCIICAST: `${EXPORT_FILE_NAME}.cast`,
+	HTML: `${EXPORT_FILE_NAME}.html`,
+}
+
+/**
+ * Finds the file to read a recording from: its source CSV file or, when there is none,
+ * its full text or diff-based JSON export.
+ * @param sessionPath - The path to the session folder.
+ * @returns The path to the file, or `undefined` if the session has nothing to read.
+ */
+export function findRecordingSource(sessionPath: string): string | undefined {
+	return [
+		path.join(sessionPath, SOURCE_FILE_NAME),
+		path.join(sessionPath, `${EXPORT_FILE_NAME}.json`),
+		path.join(sessionPath, `${EXPORT_FILE_NAME}.diff.json`),
+	].find(fs.existsSync)
+}
+
+/**
+ * Finds the file to read a recording from, unless it is the recording in progress,
+ * warning the user, or the session has nothing to read, showing an error message.
+ * @param sessionPath - The path to the session folder.
+ * @returns The path to the file, or `undefined` if the recording cannot be read.
+ */
+export function resolveRecordingSource(sessionPath: string): string | undefined {
+	if (includesRecordingInProgress([sessionPath])) {
+		return
+	}
+
+	const sourcePath = findRecordingSource(sessionPath)
+	if (!sourcePath) {
+		const errorMessage = vscode.l10n.t('No source.csv or recording.json found in {name}', {
+			name: path.basename(sessionPath),
+		})
+		vscode.window.showErrorMessage(errorMessage)
+		logToOutput(errorMessage, 'error')
+	}
+	return sourcePath
+}
+
+/**
+ * Reads a recording from its source CSV file or from its JSON export,
+ * with the terminal track and the chapters of the JSON export.
+ * @param sessionPath - The path to the session folder.
+ * @param sourcePath - The path to the file to read.
+ * @returns The processed recording.
+ */
+export async function readRecording(
+	sessionPath: string,
+	sourcePath: string
+): Promise<ProcessedRecording> {
+	if (path.basename(sourcePath) === SOURCE_FILE_NAME) {
+		return processCsvFile(sourcePath)
+	}
+	return {
+		changes: readRecordingChanges(sourcePath),
+		terminalChanges: readTerminalChanges(sessionPath),
+		chapters: readRecordingChapters(sessionPath),
+	}
+}
+
+/**
+ * Asks the user for the formats to export, with the formats of the settings selected.
+ * @returns The selected formats, or `undefined` if the user cancelled.
+ */
+async function pickExportFormats(): Promise<string[] | undefined> {
+	const selectedFormats = getConfig().get<string[]>('export.exportFormats', [])
+	const items = await vscode.window.showQuickPick(
+		EXPORT_FORMATS.map(format => ({
+			label: format,
+			description: EXPORT_FORMAT_FILES[format],
+			picked: selectedFormats.includes(format),
+		})),
+		{
+			canPickMany: true,
+			title: vscode.l10n.t('Re-export Recording'),
+			placeHolder: vscode.l10n.t('Select the formats to export'),
+		}
+	)
+	return items?.map(item => item.label)
+}
+
+/**
+ * Writes the export files of a session folder in the formats picked by the user,
+ * reading the recording from its source CSV file or from its JSON export.
+ * @param sessionPath - The path to the session folder.
+ * @returns `true` if the export files were written, `false` otherwise.
+ */
+export async function reexportRecording(sessionPath: string): Promise<boolean> {
+	const name = path.basename(sessionPath)
+	const sourcePath = resolveRecordingSource(sessionPath)
+	if (!sourcePath) {
+		return false
+	}
+
+	const exportFormats = await pickExportFormats()
+	if (!exportFormats?.length) {
+		return false
+	}
+
+	await finalizeRecording(sessionPath, await readRecording(sessionPath, sourcePath), exportFormats)
+	logToOutput(
+		vscode.l10n.t('Recording exported to {formats}: {name}', {
+			formats: exportFormats.join(', '),
+			name,
+		}),
+		'success'
+	)
+	return true
+}
@@ -0,0 +1,462 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Change, Chapter, DiffRecording, JsonRecording, TerminalChange } from './types'
+import { EXPORT_FILE_NAME, TERMINAL_TRACK_NAME } from './processing'
+import { expandDiffRecording } from './jsonDiff'
+import { escapeHtml, formatDisplayTime, logToOutput } from './utilities'
+import { extContext } from './extension'
+
+export const REPLAY_SCHEME = 'vs-code-recorder-replay'
+
+/**
+ * Interval in milliseconds between two playback updates.
+ */
+const TICK_INTERVAL = 50
+
+/**
+ * Playback speeds selectable from the replay controls.
+ */
+const SPEEDS = [0.5, 1, 1.5, 2, 4, 8]
+
+/**
+ * Number of replays opened so far, giving each replay document its own URI.
+ */
+let replayCount = 0
+
+/**
+ * Provides the read-only content of the replay documents.
+ */
+export class ReplayContentProvider implements vscode.TextDocumentContentProvider {
+	private _onDidChange: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter<vscode.Uri>()
+	readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event
+
+	private _contents = new Map<string, string>()
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		return this._contents.get(uri.toString()) ?? ''
+	}
+
+	update(uri: vscode.Uri, content: string): void {
+		this._contents.set(uri.toString(), content)
+		this._onDidChange.fire(uri)
+	}
+
+	delete(uri: vscode.Uri): void {
+		this._contents.delete(uri.toString())
+	}
+}
+
+export const replayContentProvider = new ReplayContentProvider()
+
+/**
+ * Messages sent by the replay controls webview.
+ */
+type ReplayMessage =
+	| { type: 'play' }
+	| { type: 'pause' }
+	| { type: 'seek'; time: number }
+	| { type: 'speed'; speed: number }
+
+/**
+ * Finds the index of the last change started at or before the given time.
+ * @param changes - The changes, sorted by start time.
+ * @param time - The playback time in milliseconds.
+ * @returns The index of the change, or -1 if no change started yet.
+ */
+export function findChangeIndex(changes: Change[], time: number): number {
+	let low = 0
+	let high = changes.length - 1
+	let index = -1
+	while (low <= high) {
+		const middle = Math.floor((low + high) / 2)
+		if (changes[middle].startTime <= time) {
+			index = middle
+			low = middle + 1
+		} else {
+			high = middle - 1
+		}
+	}
+	return index
+}
+
+/**
+ * A replay of a single recording, made of a virtual document and a controls panel.
+ */
+class ReplaySession {
+	private _time = 0
+	private _speed = 1
+	private _currentIndex = -1
+	private _lastTick = 0
+	private _intervalId: NodeJS.Timeout | undefined
+	private _pendingSelection: Change | undefined
+	private readonly _documentListeners: vscode.Disposable[]
+	private readonly _duration: number
+	private readonly _uri: vscode.Uri
+	private readonly _panel: vscode.WebviewPanel
+
+	constructor(
+		private readonly name: string,
+		private readonly changes: Change[],
+		private readonly terminalChanges: TerminalChange[] = []
+	) {
+		this._duration = changes.reduce((max, change) => Math.max(max, change.endTime), 0)
+		// Two replays of the same recording must not share their document
+		this._uri = vscode.Uri.from({ scheme: REPLAY_SCHEME, path: `/${++replayCount}/${name}` })
+		this._panel = vscode.window.createWebviewPanel(
+			'vs-code-recorder.replay',
+			vscode.l10n.t('Replay: {name}', { name }),
+			{ viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+			{
+				enableScripts: true,
+				localResourceRoots: [vscode.Uri.joinPath(extContext.extensionUri, 'media')],
+			}
+		)
+		this._panel.webview.html = this.getHtml()
+		this._panel.webview.onDidReceiveMessage((message: ReplayMessage) => this.onMessage(message))
+		this._panel.onDidDispose(() => this.dispose())
+		this._documentListeners = [
+			// The selection can only be applied once the document shows the new content
+			vscode.workspace.onDidChangeTextDocument(event => {
+				if (this._pendingSelection && event.document.uri.toString() === this._uri.toString()) {
+					this.applySelection(this._pendingSelection)
+				}
+			}),
+			// Closing the replay editor ends the replay, like closing its controls. The tabs are
+			// watched instead of the document, which is also closed when its language changes
+			vscode.window.tabGroups.onDidChangeTabs(event => {
+				if (event.closed.some(tab => this.isReplayTab(tab)) && !this.hasReplayTab()) {
+					this._panel.dispose()
+				}
+			}),
+		]
+	}
+
+	/**
+	 * Opens the replay document and shows the first change.
+	 */
+	async open(): Promise<void> {
+		replayContentProvider.update(this._uri, '')
+		await vscode.window.showTextDocument(this._uri, {
+			viewColumn: vscode.ViewColumn.One,
+			preview: false,
+		})
+		await this.render()
+	}
+
+	play(): void {
+		if (this._intervalId) {
+			return
+		}
+		if (this._time >= this._duration) {
+			this._time = 0
+		}
+		this._lastTick = Date.now()
+		this._intervalId = setInterval(() => this.tick(), TICK_INTERVAL)
+		this.postState()
+	}
+
+	pause(): void {
+		clearInterval(this._intervalId)
+		this._intervalId = undefined
+		this.postState()
+	}
+
+	seek(time: number): void {
+		this._time = Math.min(Math.max(time, 0), this._duration)
+		this.render()
+	}
+
+	setSpeed(speed: number): void {
+		if (SPEEDS.includes(speed)) {
+			this._speed = speed
+		}
+		this.postState()
+	}
+
+	dispose(): void {
+		clearInterval(this._intervalId)
+		this._intervalId = undefined
+		for (const listener of this._documentListeners) {
+			listener.dispose()
+		}
+		replayContentProvider.delete(this._uri)
+	}
+
+	private isReplayTab(tab: vscode.Tab): boolean {
+		return (
+			tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === this._uri.toString()
+		)
+	}
+
+	private hasReplayTab(): boolean {
+		return vscode.window.tabGroups.all.some(group => group.tabs.some(tab => this.isReplayTab(tab)))
+	}
+
+	private tick(): void {
+		const now = Date.now()
+		this._time = Math.min(this._time + (now - this._lastTick) * this._speed, this._duration)
+		this._lastTick = now
+		if (this._time >= this._duration) {
+			this.pause()
+		}
+		this.render()
+	}
+
+	/**
+	 * Updates the replay document with the change active at the current time.
+	 */
+	private async render(): Promise<void> {
+		const index = findChangeIndex(this.changes, this._time)
+		if (index !== this._currentIndex) {
+			const previousChange = this.changes[this._currentIndex]
+			const change = this.changes[index]
+			this._currentIndex = index
+			if (change?.text !== previousChange?.text) {
+				this._pendingSelection = change
+				replayContentProvider.update(this._uri, change?.text ?? '')
+			} else if (change) {
+				this.applySelection(change)
+			}
+			if (change?.language && change.language !== previousChange?.language) {
+				await this.setLanguage(change.language)
+			}
+		}
+		this.postState()
+	}
+
+	/**
+	 * Moves the cursor of the replay editor to the recorded selection.
+	 * @param change - The change holding the selection.
+	 */
+	private applySelection(change: Change): void {
+		this._pendingSelection = undefined
+		const editor = vscode.window.visibleTextEditors.find(
+			visibleEditor => visibleEditor.document.uri.toString() === this._uri.toString()
+		)
+		if (!editor || !change.selection) {
+			return
+		}
+		const start = editor.document.positionAt(change.selection.offset)
+		const end = editor.document.positionAt(change.selection.offset + change.selection.length)
+		editor.selection = new vscode.Selection(start, end)
+		editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+	}
+
+	private async setLanguage(language: string): Promise<void> {
+		const document = vscode.workspace.textDocuments.find(
+			doc => doc.uri.toString() === this._uri.toString()
+		)
+		if (!document) {
+			return
+		}
+		try {
+			await vscode.languages.setTextDocumentLanguage(document, language)
+		} catch (err) {
+			logToOutput(vscode.l10n.t('Unknown language: {language}', { language }), 'error')
+			console.error('Error setting replay language:', err)
+		}
+	}
+
+	private onMessage(message: ReplayMessage): void {
+		switch (message.type) {
+			case 'play':
+				this.play()
+				break
+			case 'pause':
+				this.pause()
+				break
+			case 'seek':
+				this.seek(message.time)
+				break
+			case 'speed':
+				this.setSpeed(message.speed)
+				break
+		}
+	}
+
+	private postState(): void {
+		const change = this.changes[this._currentIndex]
+		// The last command run by the current time, if any
+		const terminalChange = this.terminalChanges
+			.filter(command => command.startTime <= this._time)
+			.pop()
+		this._panel.webview.postMessage({
+			type: 'state',
+			time: this._time,
+			duration: this._duration,
+			playing: this._intervalId !== undefined,
+			speed: this._speed,
+			file: change?.file ?? '',
+			terminal: terminalChange
+				? {
+						name: terminalChange.terminal,
+						command: terminalChange.command,
+						// The output is recorded as a whole, so it is shown once the command ended
+						output: this._time >= terminalChange.endTime ? terminalChange.output : '',
+					}
+				: undefined,
+			timeLabel: `${formatDisplayTime(Math.floor(this._time / 1000))} / ${formatDisplayTime(
+				Math.floor(this._duration / 1000)
+			)}`,
+		})
+	}
+
+	private getHtml(): string {
+		const webview = this._panel.webview
+		const mediaUri = vscode.Uri.joinPath(extContext.extensionUri, 'media')
+		const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'replay.js'))
+		const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'replay.css'))
+		const nonce = getNonce()
+		const speedOptions = SPEEDS.map(
+			speed => `<option value="${speed}"${speed === 1 ? ' selected' : ''}>${speed}x</option>`
+		).join('')
+
+		return `<!DOCTYPE html>
+<html lang="${vscode.env.language}">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${
+		webview.cspSource
+	}; script-src 'nonce-${nonce}';">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${styleUri}" rel="stylesheet">
+	<title>${escapeHtml(this.name)}</title>
+</head>
+<body>
+	<div class="container">
+		<h3 class="replay-title">${escapeHtml(this.name)}</h3>
+		<div class="replay-file" id="file"></div>
+		<input class="replay-timeline" id="timeline" type="range" min="0" max="${
+			this._duration
+		}" value="0" step="1">
+		<div class="replay-terminal" id="terminal" hidden>
+			<div class="replay-terminal-command" id="terminal-command"></div>
+			<pre class="replay-terminal-output" id="terminal-output"></pre>
+		</div>
+		<div class="replay-controls">
+			<button class="action-button start" id="play" data-play="${escapeHtml(
+				vscode.l10n.t('Play')
+			)}" data-pause="${escapeHtml(vscode.l10n.t('Pause'))}">${escapeHtml(
+				vscode.l10n.t('Play')
+			)}</button>
+			<label>
+				${escapeHtml(vscode.l10n.t('Speed'))}
+				<select id="speed">${speedOptions}</select>
+			</label>
+			<span class="replay-time" id="time"></span>
+		</div>
+	</div>
+	<script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`
+	}
+}
+
+/**
+ * Generates a random nonce for the webview content security policy.
+ * @returns A 32 characters random string.
+ */
+function getNonce(): string {
+	const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+	let nonce = ''
+	for (let i = 0; i < 32; i++) {
+		nonce += possible.charAt(Math.floor(Math.random() * possible.length))
+	}
+	return nonce
+}
+
+/**
+ * Reads the changes of a recording from its JSON or JSON_DIFF export.
+ * @param jsonPath - The path to the `recording.json` or `recording.diff.json` file.
+ * @returns The changes sorted by start time.
+ */
+export function readRecordingChanges(jsonPath: string): Change[] {
+	const content = JSON.parse(fs.readFileSync(jsonPath, 'utf8')) as
+		| Change[]
+		| JsonRecording
+		| DiffRecording
+	let changes: Change[] | undefined
+	if (Array.isArray(content)) {
+		// Older JSON exports are the array of the changes
+		changes = content
+	} else if (Array.isArray(content?.changes)) {
+		changes = 'keyframeInterval' in content ? expandDiffRecording(content) : content.changes
+	}
+	if (!changes) {
+		throw new Error(vscode.l10n.t('Invalid recording file: {file}', { file: jsonPath }))
+	}
+	return changes.sort((a, b) => a.startTime - b.startTime || a.sequence - b.sequence)
+}
+
+/**
+ * Reads the terminal track of a recording, if the commands run in the terminal were recorded.
+ * @param sessionPath - The path to the session folder.
+ * @returns The terminal changes sorted by start time, or an empty array if there are none.
+ */
+export function readTerminalChanges(sessionPath: string): TerminalChange[] {
+	const terminalPath = path.join(sessionPath, `${EXPORT_FILE_NAME}.${TERMINAL_TRACK_NAME}.json`)
+	if (!fs.existsSync(terminalPath)) {
+		return []
+	}
+	const terminalChanges = JSON.parse(fs.readFileSync(terminalPath, 'utf8')) as TerminalChange[]
+	return Array.isArray(terminalChanges)
+		? terminalChanges.sort((a, b) => a.startTime - b.startTime)
+		: []
+}
+
+/**
+ * Reads the chapters of a recording from its JSON export, if markers were added while recording.
+ * @param sessionPath - The path to the session folder.
+ * @returns The chapters sorted by start time, or an empty array if there are none
+ * or the JSON export is not valid.
+ */
+export function readRecordingChapters(sessionPath: string): Chapter[] {
+	const jsonPath = path.join(sessionPath, `${EXPORT_FILE_NAME}.json`)
+	if (!fs.existsSync(jsonPath)) {
+		return []
+	}
+	try {
+		const content = JSON.parse(fs.readFileSync(jsonPath, 'utf8')) as Change[] | JsonRecording
+		return !Array.isArray(content) && Array.isArray(content?.chapters)
+			? content.chapters.sort((a, b) => a.startTime - b.startTime)
+			: []
+	} catch (err) {
+		console.error('Error reading chapters:', err)
+		return []
+	}
+}
+
+/**
+ * Opens the in-editor playback of a recording.
+ * @param recordingPath - The path to the session folder or to its `recording.json` file.
+ * @param startTime - The time to start the playback from, like the start of a chapter.
+ */
+export async function replayRecording(recordingPath: string, startTime = 0): Promise<void> {
+	// Prefer the full text export, falling back to the diff-based one
+	const jsonPath = fs.statSync(recordingPath).isDirectory()
+		? ([
+				path.join(recordingPath, 'recording.json'),
+				path.join(recordingPath, 'recording.diff.json'),
+			].find(fs.existsSync) ?? path.join(recordingPath, 'recording.json'))
+		: recordingPath
+	const name = path.basename(path.dirname(jsonPath))
+
+	if (!fs.existsSync(jsonPath)) {
+		const errorMessage = vscode.l10n.t('No recording.json found in {name}', { name })
+		vscode.window.showErrorMessage(errorMessage)
+		logToOutput(errorMessage, 'error')
+		return
+	}
+
+	const changes = readRecordingChanges(jsonPath)
+	if (changes.length === 0) {
+		vscode.window.showWarningMessage(vscode.l10n.t('The recording has no changes to replay'))
+		return
+	}
+
+	const session = new ReplaySession(name, changes, readTerminalChanges(path.dirname(jsonPath)))
+	await session.open()
+	session.seek(startTime)
+	session.play()
+}
@@ -0,0 +1,277 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { EXPORT_FILE_NAME, SOURCE_FILE_NAME } from './processing'
+import {
+	type SessionInfo,
+	isSessionFolder,
+	readSessionInfo,
+	sortSessions,
+} from './recordFilesProvider'
+import { getSessionPath, recording } from './recording'
+import { isUnfinishedSession } from './recovery'
+import { sendToSystemTrash } from './trash'
+import { getConfig, logToOutput } from './utilities'
+
+const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000
+const MEGABYTE = 1024 * 1024
+
+/**
+ * The retention policy of the settings. A limit of 0 means no limit.
+ */
+export interface RetentionPolicy {
+	maxSessions: number
+	/** The maximum age in days. */
+	maxAge: number
+	/** The maximum total size of the sessions in megabytes. */
+	maxTotalSize: number
+	/** Whether to delete only the source CSV file of the sessions, keeping their exports. */
+	deleteSourceOnly: boolean
+}
+
+/**
+ * A session folder the retention policy applies to.
+ */
+export interface RetainedSession extends SessionInfo {
+	/** The size of the source CSV file in bytes, 0 if there is none. */
+	sourceSize: number
+	hasExports: boolean
+	/** Whether the session is never deleted, like the one just exported. It still counts against the limits. */
+	kept?: boolean
+}
+
+/**
+ * A session deleted by the retention policy, with the first limit it exceeds.
+ */
+export interface PrunedSession {
+	session: RetainedSession
+	reason: string
+}
+
+/**
+ * Reads the retention policy of the settings.
+ * @returns The retention policy.
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+	const config = getConfig()
+	return {
+		maxSessions: config.get<number>('retention.maxSessions', 0),
+		maxAge: config.get<number>('retention.maxAge', 0),
+		maxTotalSize: config.get<number>('retention.maxTotalSize', 0),
+		deleteSourceOnly: config.get<boolean>('retention.deleteSourceOnly', false),
+	}
+}
+
+/**
+ * Selects the sessions to delete to respect the retention policy, from the oldest.
+ * Pinned sessions are never deleted and are not counted in the maximum number of sessions,
+ * but their size is counted in the total size. Kept sessions are never deleted either,
+ * but they are counted against all the limits. When only the source CSV files are deleted,
+ * the sessions without a source CSV file or without exports are kept.
+ * @param sessions - The session folders of the export path.
+ * @param policy - The retention policy.
+ * @param now - The current time.
+ * @returns The sessions to delete, from the oldest.
+ */
+export function selectSessionsToPrune(
+	sessions: RetainedSession[],
+	policy: RetentionPolicy,
+	now = Date.now()
+): PrunedSession[] {
+	const candidates = sortSessions(
+		sessions.filter(
+			session =>
+				!session.pinned &&
+				(!policy.deleteSourceOnly || (session.sourceSize > 0 && session.hasExports))
+		),
+		'date'
+	)
+	const reasons = new Map<RetainedSession, string>()
+	const prune = (session: RetainedSession, reason: string) => {
+		if (!session.kept && !reasons.has(session)) {
+			reasons.set(session, reason)
+		}
+	}
+
+	if (policy.maxSessions > 0) {
+		for (const session of candidates.slice(policy.maxSessions)) {
+			prune(session, vscode.l10n.t('More than {count} recordings', { count: policy.maxSessions }))
+		}
+	}
+	if (policy.maxAge > 0) {
+		for (const session of candidates) {
+			if (now - session.date.getTime() > policy.maxAge * DAY_IN_MILLISECONDS) {
+				prune(session, vscode.l10n.t('Older than {count} days', { count: policy.maxAge }))
+			}
+		}
+	}
+	if (policy.maxTotalSize > 0) {
+		const getFreedSize = (session: RetainedSession) =>
+			policy.deleteSourceOnly ? session.sourceSize : session.size
+		let totalSize = sessions.reduce((total, session) => total + session.size, 0)
+		for (const session of reasons.keys()) {
+			totalSize -= getFreedSize(session)
+		}
+		for (const session of [...candidates].reverse()) {
+			if (totalSize <= policy.maxTotalSize * MEGABYTE) {
+				break
+			}
+			if (!session.kept && !reasons.has(session)) {
+				prune(
+					session,
+					vscode.l10n.t('Over the total size of {size} MB', { size: policy.maxTotalSize })
+				)
+				totalSize -= getFreedSize(session)
+			}
+		}
+	}
+
+	return [...candidates].reverse().flatMap(session => {
+		const reason = reasons.get(session)
+		return reason ? [{ session, reason }] : []
+	})
+}
+
+/**
+ * Reads the session folders of the export path the retention policy applies to,
+ * without the recording in progress and the unfinished recordings, which are left to recover.
+ * @param exportPath - The export path.
+ * @param keptPaths - The paths to the session folders never to delete.
+ * @returns The session folders.
+ */
+function readRetainedSessions(exportPath: string, keptPaths: string[]): RetainedSession[] {
+	if (!fs.existsSync(exportPath)) {
+		return []
+	}
+	const currentSessionPath = recording.isRecording ? getSessionPath() : undefined
+	const resolvedKeptPaths = keptPaths.map(keptPath => path.resolve(keptPath))
+	return fs
+		.readdirSync(exportPath)
+		.map(item => path.join(exportPath, item))
+		.filter(
+			itemPath =>
+				(!currentSessionPath || path.resolve(itemPath) !== path.resolve(currentSessionPath)) &&
+				isSessionFolder(itemPath) &&
+				!isUnfinishedSession(itemPath)
+		)
+		.map(sessionPath => {
+			const files = fs.readdirSync(sessionPath)
+			return {
+				...readSessionInfo(sessionPath),
+				sourceSize: files.includes(SOURCE_FILE_NAME)
+					? fs.statSync(path.join(sessionPath, SOURCE_FILE_NAME)).size
+					: 0,
+				hasExports: files.some(file => file.startsWith(`${EXPORT_FILE_NAME}.`)),
+				kept: resolvedKeptPaths.includes(path.resolve(sessionPath)),
+			}
+		})
+}
+
+/**
+ * Sends the pruned sessions, or only their source CSV files, to the trash of the operating system.
+ * @param prunedSessions - The sessions to delete.
+ * @param deleteSourceOnly - Whether to delete only the source CSV files.
+ * @returns The number of sessions deleted.
+ */
+async function pruneSessions(
+	prunedSessions: PrunedSession[],
+	deleteSourceOnly: boolean
+): Promise<number> {
+	let count = 0
+	for (const { session, reason } of prunedSessions) {
+		try {
+			const deleted = await sendToSystemTrash(
+				deleteSourceOnly ? path.join(session.path, SOURCE_FILE_NAME) : session.path
+			)
+			if (!deleted) {
+				continue
+			}
+			count++
+			logToOutput(
+				deleteSourceOnly
+					? vscode.l10n.t('Source file of {name} deleted by the retention policy: {reason}', {
+							name: session.name,
+							reason,
+						})
+					: vscode.l10n.t('Recording {name} deleted by the retention policy: {reason}', {
+							name: session.name,
+							reason,
+						}),
+				'info'
+			)
+		} catch (err) {
+			logToOutput(`Error deleting ${session.name}: ${err}`, 'error')
+		}
+	}
+	return count
+}
+
+/**
+ * Deletes the sessions of the export path exceeding the retention policy of the settings.
+ * @param exportPath - The export path.
+ * @param keptPaths - The paths to the session folders never to delete, like the one just exported.
+ * They still count against the limits.
+ * @returns The number of sessions deleted.
+ */
+export async function applyRetentionPolicy(
+	exportPath: string,
+	keptPaths: string[] = []
+): Promise<number> {
+	const policy = getRetentionPolicy()
+	if (policy.maxSessions <= 0 && policy.maxAge <= 0 && policy.maxTotalSize <= 0) {
+		return 0
+	}
+	const prunedSessions = selectSessionsToPrune(readRetainedSessions(exportPath, keptPaths), policy)
+	return pruneSessions(prunedSessions, policy.deleteSourceOnly)
+}
+
+/**
+ * Shows the sessions of the export path the retention policy would delete, without deleting them.
+ * None of them is selected: the user can select some and delete them right away,
+ * after confirming it.
+ * @param exportPath - The export path.
+ * @returns The number of sessions deleted.
+ */
+export async function previewRetentionPolicy(exportPath: string): Promise<number> {
+	const policy = getRetentionPolicy()
+	const prunedSessions = selectSessionsToPrune(readRetainedSessions(exportPath, []), policy)
+	if (prunedSessions.length === 0) {
+		vscode.window.showInformationMessage(
+			vscode.l10n.t('The retention policy would not delete any recording')
+		)
+		return 0
+	}
+
+	const items = await vscode.window.showQuickPick(
+		prunedSessions.map(prunedSession => ({
+			label: prunedSession.session.name,
+			description: prunedSession.reason,
+			prunedSession,
+		})),
+		{
+			canPickMany: true,
+			title: policy.deleteSourceOnly
+				? vscode.l10n.t('Source files the retention policy would delete')
+				: vscode.l10n.t('Recordings the retention policy would delete'),
+			placeHolder: vscode.l10n.t(
+				'Nothing is deleted: press Escape to close, or select recordings and press OK to delete them'
+			),
+		}
+	)
+	if (!items?.length) {
+		return 0
+	}
+	const deleteLabel = vscode.l10n.t('Delete')
+	const result = await vscode.window.showWarningMessage(
+		vscode.l10n.t('Are you sure you want to delete {count} items?', { count: items.length }),
+		{ modal: true },
+		deleteLabel
+	)
+	if (result !== deleteLabel) {
+		return 0
+	}
+	return pruneSessions(
+		items.map(item => item.prunedSession),
+		policy.deleteSourceOnly
+	)
+}
@@ -0,0 +1,319 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { parseSessionFolderName } from './recordFilesProvider'
+import { getSessionPath, recording } from './recording'
+import { logToOutput, resolveExportPaths } from './utilities'
+
+/**
+ * Characters not allowed in folder names on at least one platform.
+ */
+const INVALID_FOLDER_NAME_CHARACTERS = /[\\/:*?"<>|]/
+
+/**
+ * Marker file of the pinned session folders, which the retention policy never deletes.
+ * It is kept when the folder is renamed or moved.
+ */
+export const PIN_FILE_NAME = '.pinned'
+
+/**
+ * Checks if a session folder is pinned.
+ * @param sessionPath - The path to the session folder.
+ * @returns `true` if the session is pinned, `false` otherwise.
+ */
+export function isPinned(sessionPath: string): boolean {
+	return fs.existsSync(path.join(sessionPath, PIN_FILE_NAME))
+}
+
+/**
+ * Pins or unpins session folders.
+ * @param sessionPaths - The paths to the session folders.
+ * @param pinned - Whether to pin or unpin the sessions.
+ */
+export async function setPinned(sessionPaths: string[], pinned: boolean): Promise<void> {
+	for (const sessionPath of sessionPaths) {
+		const pinPath = path.join(sessionPath, PIN_FILE_NAME)
+		if (pinned) {
+			await fs.promises.writeFile(pinPath, '')
+		} else {
+			await fs.promises.rm(pinPath, { force: true })
+		}
+	}
+}
+
+/**
+ * Finds a name for a new session folder next to an existing one, like `name-copy`,
+ * then `name-copy-2` and so on.
+ * @param sessionPath - The path to the existing session folder.
+ * @param suffix - The suffix of the new folder, like `-copy`.
+ * @returns The path to a folder that does not exist yet.
+ */
+export function getAvailableSessionPath(sessionPath: string, suffix: string): string {
+	let availablePath = `${sessionPath}${suffix}`
+	for (let index = 2; fs.existsSync(availablePath); index++) {
+		availablePath = `${sessionPath}${suffix}-${index}`
+	}
+	return availablePath
+}
+
+/**
+ * Replaces the folder name chosen when recording in the name of a session folder,
+ * keeping the start time and the suffix of edited or duplicated sessions.
+ * Folders not named after a start time are renamed entirely.
+ * @param name - The name of the session folder.
+ * @param folderName - The new folder name.
+ * @returns The new name of the session folder.
+ */
+export function getRenamedSessionName(name: string, folderName: string): string {
+	const parsedName = parseSessionFolderName(name)
+	return parsedName ? `${folderName}${name.slice(parsedName.folderName.length)}` : folderName
+}
+
+/**
+ * Checks if a folder name can be used for a session folder.
+ * @param folderName - The folder name.
+ * @returns The error message, or `undefined` if the name is valid.
+ */
+function validateFolderName(folderName: string): string | undefined {
+	const name = folderName.trim()
+	if (!name || name === '.' || name === '..' || INVALID_FOLDER_NAME_CHARACTERS.test(name)) {
+		return vscode.l10n.t('Invalid folder name')
+	}
+}
+
+/**
+ * Checks if one of the sessions is being recorded, warning the user if so.
+ * @param sessionPaths - The paths to the session folders.
+ * @returns `true` if a session is being recorded, `false` otherwise.
+ */
+export function includesRecordingInProgress(sessionPaths: string[]): boolean {
+	const currentSessionPath = getSessionPath()
+	if (
+		recording.isRecording &&
+		currentSessionPath &&
+		sessionPaths.some(sessionPath => path.resolve(sessionPath) === path.resolve(currentSessionPath))
+	) {
+		vscode.window.showWarningMessage(
+			vscode.l10n.t('The recording in progress can be changed only after it is stopped')
+		)
+		return true
+	}
+	return false
+}
+
+/**
+ * Checks that none of the target folders exists or is the target of another session,
+ * showing an error message otherwise.
+ * @param targetPaths - The paths to the target folders.
+ * @returns `true` if all the targets are free, `false` otherwise.
+ */
+function checkTargetsAvailable(targetPaths: string[]): boolean {
+	const takenPath = targetPaths.find(
+		(targetPath, index) => fs.existsSync(targetPath) || targetPaths.indexOf(targetPath) !== index
+	)
+	if (takenPath) {
+		const errorMessage = vscode.l10n.t('A recording named {name} already exists', {
+			name: path.basename(takenPath),
+		})
+		vscode.window.showErrorMessage(errorMessage)
+		logToOutput(errorMessage, 'error')
+		return false
+	}
+	return true
+}
+
+/**
+ * Asks the user to confirm a change of several sessions, like the delete command does.
+ * @param message - The confirmation message.
+ * @returns `true` if the user confirmed, `false` otherwise.
+ */
+async function confirm(message: string): Promise<boolean> {
+	const result = await vscode.window.showWarningMessage(
+		message,
+		vscode.l10n.t('Yes'),
+		vscode.l10n.t('No')
+	)
+	return result === vscode.l10n.t('Yes')
+}
+
+/**
+ * Moves a folder, copying it when the target is on another device.
+ * @param sourcePath - The path to the folder.
+ * @param targetPath - The new path of the folder.
+ */
+async function moveFolder(sourcePath: string, targetPath: string): Promise<void> {
+	try {
+		await fs.promises.rename(sourcePath, targetPath)
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code !== 'EXDEV') {
+			throw err
+		}
+		await fs.promises.cp(sourcePath, targetPath, { recursive: true, errorOnExist: true })
+		await fs.promises.rm(sourcePath, { recursive: true, force: true })
+	}
+}
+
+/**
+ * Renames session folders, asking the user for the new folder name.
+ * The start time in the folder names is kept, so several sessions can get the same name.
+ * @param sessionPaths - The paths to the session folders.
+ * @returns `true` if the folders were renamed, `false` otherwise.
+ */
+export async function renameSessions(sessionPaths: string[]): Promise<boolean> {
+	if (sessionPaths.length === 0 || includesRecordingInProgress(sessionPaths)) {
+		return false
+	}
+	const name = path.basename(sessionPaths[0])
+	const folderName = await vscode.window.showInputBox({
+		title:
+			sessionPaths.length === 1
+				? vscode.l10n.t('Rename {name}', { name })
+				: vscode.l10n.t('Rename {count} Recordings', { count: sessionPaths.length }),
+		prompt: vscode.l10n.t('Enter the new folder name. The start time of the recording is kept'),
+		value: parseSessionFolderName(name)?.folderName ?? name,
+		validateInput: validateFolderName,
+	})
+	if (folderName === undefined) {
+		return false
+	}
+
+	const targetPaths = sessionPaths.map(sessionPath =>
+		path.join(
+			path.dirname(sessionPath),
+			getRenamedSessionName(path.basename(sessionPath), folderName.trim())
+		)
+	)
+	const renames = sessionPaths
+		.map((sessionPath, index) => [sessionPath, targetPaths[index]])
+		.filter(([sessionPath, targetPath]) => sessionPath !== targetPath)
+	if (
+		renames.length === 0 ||
+		!checkTargetsAvailable(renames.map(([, targetPath]) => targetPath)) ||
+		(renames.length > 1 &&
+			!(await confirm(
+				vscode.l10n.t('Are you sure you want to rename {count} recordings to {name}?', {
+					count: renames.length,
+					name: folderName.trim(),
+				})
+			)))
+	) {
+		return false
+	}
+
+	for (const [sessionPath, targetPath] of renames) {
+		await fs.promises.rename(sessionPath, targetPath)
+		logToOutput(
+			vscode.l10n.t('Recording renamed: {name} to {newName}', {
+				name: path.basename(sessionPath),
+				newName: path.basename(targetPath),
+			}),
+			'success'
+		)
+	}
+	return true
+}
+
+/**
+ * Copies session folders next to the original ones, with a `-copy` suffix.
+ * @param sessionPaths - The paths to the session folders.
+ * @returns The paths to the copies.
+ */
+export async function duplicateSessions(sessionPaths: string[]): Promise<string[]> {
+	if (includesRecordingInProgress(sessionPaths)) {
+		return []
+	}
+	const copyPaths: string[] = []
+	for (const sessionPath of sessionPaths) {
+		const copyPath = getAvailableSessionPath(sessionPath, '-copy')
+		await fs.promises.cp(sessionPath, copyPath, { recursive: true, errorOnExist: true })
+		copyPaths.push(copyPath)
+		logToOutput(
+			vscode.l10n.t('Recording duplicated: {name}', { name: path.basename(copyPath) }),
+			'success'
+		)
+	}
+	return copyPaths
+}
+
+/**
+ * Asks the user for the folder to move sessions to: the export path of another workspace folder
+ * or any folder picked in the file dialog.
+ * @param currentExportPath - The export path the sessions are in.
+ * @returns The path to the folder, or `undefined` if the user cancelled.
+ */
+async function pickTargetExportPath(currentExportPath: string): Promise<string | undefined> {
+	const exportPaths = resolveExportPaths().filter(
+		exportPath => exportPath !== path.resolve(currentExportPath)
+	)
+
+	const browseItem: vscode.QuickPickItem = { label: vscode.l10n.t('Browse…') }
+	const item =
+		exportPaths.length > 0
+			? await vscode.window.showQuickPick(
+					[...exportPaths.map(exportPath => ({ label: exportPath })), browseItem],
+					{ title: vscode.l10n.t('Move Recordings To') }
+				)
+			: browseItem
+	if (item !== browseItem) {
+		return item?.label
+	}
+	const uris = await vscode.window.showOpenDialog({
+		canSelectFiles: false,
+		canSelectFolders: true,
+		canSelectMany: false,
+		defaultUri: vscode.Uri.file(currentExportPath),
+		openLabel: vscode.l10n.t('Move Here'),
+		title: vscode.l10n.t('Move Recordings To'),
+	})
+	return uris?.[0].fsPath
+}
+
+/**
+ * Moves session folders to another export path, after asking the user for it
+ * and for a confirmation.
+ * @param sessionPaths - The paths to the session folders, all in the same export path.
+ * @returns `true` if the folders were moved, `false` otherwise.
+ */
+export async function moveSessions(sessionPaths: string[]): Promise<boolean> {
+	if (sessionPaths.length === 0 || includesRecordingInProgress(sessionPaths)) {
+		return false
+	}
+	const currentExportPath = path.dirname(sessionPaths[0])
+	const targetExportPath = await pickTargetExportPath(currentExportPath)
+	if (!targetExportPath || path.resolve(targetExportPath) === path.resolve(currentExportPath)) {
+		return false
+	}
+
+	const targetPaths = sessionPaths.map(sessionPath =>
+		path.join(targetExportPath, path.basename(sessionPath))
+	)
+	if (
+		!checkTargetsAvailable(targetPaths) ||
+		!(await confirm(
+			sessionPaths.length === 1
+				? vscode.l10n.t('Are you sure you want to move {name} to {path}?', {
+						name: path.basename(sessionPaths[0]),
+						path: targetExportPath,
+					})
+				: vscode.l10n.t('Are you sure you want to move {count} recordings to {path}?', {
+						count: sessionPaths.length,
+						path: targetExportPath,
+					})
+		))
+	) {
+		return false
+	}
+
+	await fs.promises.mkdir(targetExportPath, { recursive: true })
+	for (const [index, sessionPath] of sessionPaths.entries()) {
+		await moveFolder(sessionPath, targetPaths[index])
+		logToOutput(
+			vscode.l10n.t('Recording moved to {path}: {name}', {
+				path: targetExportPath,
+				name: path.basename(sessionPath),
+			}),
+			'success'
+		)
+	}
+	return true
+}
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { ChangeType, type IdlePeriod, type RecordingStatistics } from './types'
+import { SOURCE_FILE_NAME } from './processing'
+import { readCsvFile } from './csv'
+import { getDelta } from './jsonDiff'
+import { resolveRecordingSource } from './reexport'
+import { readRecordingChanges } from './replay'
+import { formatDisplayTime, logToOutput } from './utilities'
+
+export const STATISTICS_FILE_NAME = 'stats.json'
+export const STATISTICS_SUMMARY_FILE_NAME = 'stats.md'
+
+/**
+ * Version of the statistics schema, increased on breaking changes.
+ */
+const STATISTICS_VERSION = 1
+
+/**
+ * Number of idle periods listed in the statistics.
+ */
+const IDLE_PERIODS_COUNT = 5
+
+/**
+ * Something done in the recording, with the time spent paused removed.
+ */
+export interface ActivityEvent {
+	time: number
+	file: string
+	language: string
+	/** Whether the file was opened or focused, instead of edited. */
+	isFocus: boolean
+	insertedCharacters: number
+	deletedCharacters: number
+}
+
+/**
+ * Reads the activity of a recording from its source CSV file, where each edit is a row.
+ * @param sourcePath - The path to the source CSV file.
+ * @returns The activity events and the time of the last row, without the time spent paused.
+ */
+async function readCsvActivity(
+	sourcePath: string
+): Promise<{ events: ActivityEvent[]; endTime: number }> {
+	const events: ActivityEvent[] = []
+	let pauseStartTime: number | null = null
+	let pausedDuration = 0
+	let endTime = 0
+
+	for await (const row of readCsvFile(sourcePath)) {
+		if (row.type === ChangeType.PAUSE) {
+			pauseStartTime = row.time
+		} else if (row.type === ChangeType.RESUME && pauseStartTime !== null) {
+			pausedDuration += row.time - pauseStartTime
+			pauseStartTime = null
+		}
+		const time = row.time - pausedDuration
+		endTime = Math.max(endTime, pauseStartTime ?? time)
+
+		if (row.type === ChangeType.TAB || row.type === ChangeType.CONTENT) {
+			const isFocus = row.type === ChangeType.TAB
+			events.push({
+				time,
+				file: row.file,
+				language: row.language,
+				isFocus,
+				insertedCharacters: isFocus ? 0 : row.text.length,
+				deletedCharacters: isFocus ? 0 : row.rangeLength,
+			})
+		}
+	}
+	return { events, endTime }
+}
+
+/**
+ * Reads the activity of a recording from its JSON export, where the edits are found
+ * by comparing the text of each change with the previous text of the same file.
+ * @param jsonPath - The path to the `recording.json` or `recording.diff.json` file.
+ * @returns The activity events and the end time of the recording.
+ */
+function readJsonActivity(jsonPath: string): { events: ActivityEvent[]; endTime: number } {
+	const changes = readRecordingChanges(jsonPath)
+	const events: ActivityEvent[] = []
+	const snapshots = new Map<string, string>()
+	let currentFile: string | undefined
+
+	for (const change of changes) {
+		if (change.paused || change.idle) {
+			continue
+		}
+		const previousText = snapshots.get(change.file)
+		snapshots.set(change.file, change.text)
+		if (change.file !== currentFile) {
+			currentFile = change.file
+			events.push({
+				time: change.startTime,
+				file: change.file,
+				language: change.language,
+				isFocus: true,
+				insertedCharacters: 0,
+				deletedCharacters: 0,
+			})
+		}
+		if (previousText !== undefined && previousText !== change.text) {
+			const { rangeLength, text } = getDelta(previousText, change.text)
+			events.push({
+				time: change.startTime,
+				file: change.file,
+				language: change.language,
+				isFocus: false,
+				insertedCharacters: text.length,
+				deletedCharacters: rangeLength,
+			})
+		}
+	}
+	return {
+		events,
+		endTime: changes.reduce((max, change) => Math.max(max, change.endTime), 0),
+	}
+}
+
+/**
+ * Computes the statistics of a recording from its activity.
+ * The time between two events is spent on the file of the first one, and is idle time.
+ * @param events - The activity events, sorted by time.
+ * @param endTime - The end time of the recording.
+ * @returns The statistics.
+ */
+export function computeStatistics(events: ActivityEvent[], endTime: number): RecordingStatistics {
+	const statistics: RecordingStatistics = {
+		version: STATISTICS_VERSION,
+		duration: endTime,
+		insertions: 0,
+		insertedCharacters: 0,
+		deletions: 0,
+		deletedCharacters: 0,
+		insertionsPerMinute: 0,
+		charactersPerMinute: 0,
+		fileSwitches: 0,
+		timePerFile: {},
+		timePerLanguage: {},
+		longestIdlePeriods: [],
+	}
+	const idlePeriods: IdlePeriod[] = []
+
+	events.forEach((event, index) => {
+		if (event.insertedCharacters > 0) {
+			statistics.insertions++
+			statistics.insertedCharacters += event.insertedCharacters
+		}
+		if (event.deletedCharacters > 0) {
+			statistics.deletions++
+			statistics.deletedCharacters += event.deletedCharacters
+		}
+		const previousEvent = events[index - 1]
+		if (event.isFocus && previousEvent && previousEvent.file !== event.file) {
+			statistics.fileSwitches++
+		}
+
+		const nextTime = Math.max(events[index + 1]?.time ?? endTime, event.time)
+		const duration = nextTime - event.time
+		statistics.timePerFile[event.file] = (statistics.timePerFile[event.file] ?? 0) + duration
+		if (event.language) {
+			statistics.timePerLanguage[event.language] =
+				(statistics.timePerLanguage[event.language] ?? 0) + duration
+		}
+		if (duration > 0) {
+			idlePeriods.push({ startTime: event.time, duration })
+		}
+	})
+
+	const minutes = endTime / 60000
+	if (minutes > 0) {
+		statistics.insertionsPerMinute = Math.round((statistics.insertions / minutes) * 10) / 10
+		statistics.charactersPerMinute = Math.round((statistics.insertedCharacters / minutes) * 10) / 10
+	}
+	statistics.longestIdlePeriods = idlePeriods
+		.sort((a, b) => b.duration - a.duration)
+		.slice(0, IDLE_PERIODS_COUNT)
+	return statistics
+}
+
+/**
+ * Formats a duration in milliseconds for the summary.
+ * @param milliseconds - The duration.
+ * @returns The formatted duration.
+ */
+function formatDuration(milliseconds: number): string {
+	return formatDisplayTime(Math.round(milliseconds / 1000))
+}
+
+/**
+ * Builds a Markdown table of the time spent on each file or language, longest first.
+ * @param heading - The heading of the first column.
+ * @param times - The time spent on each file or language.
+ * @param duration - The duration of the recording.
+ * @returns The Markdown table.
+ */
+function buildTimeTable(heading: string, times: Record<string, number>, duration: number): string {
+	const rows = Object.entries(times)
+		.sort(([, a], [, b]) => b - a)
+		.map(
+			([name, time]) =>
+				`| ${name.replace(/\|/g, '\\|')} | ${formatDuration(time)} | ${
+					duration > 0 ? Math.round((time / duration) * 100) : 0
+				}% |`
+		)
+	return [
+		`| ${heading} | ${vscode.l10n.t('Time')} | ${vscode.l10n.t('Share')} |`,
+		'| --- | ---: | ---: |',
+		...rows,
+	].join('\n')
+}
+
+/**
+ * Builds the readable summary of the statistics of a recording.
+ * @param name - The name of the recording.
+ * @param statistics - The statistics.
+ * @returns The content of the Markdown file.
+ */
+export function buildStatisticsSummary(name: string, statistics: RecordingStatistics): string {
+	const overview = [
+		[vscode.l10n.t('Duration'), formatDuration(statistics.duration)],
+		[vscode.l10n.t('Insertions'), String(statistics.insertions)],
+		[vscode.l10n.t('Inserted characters'), String(statistics.insertedCharacters)],
+		[vscode.l10n.t('Deletions'), String(statistics.deletions)],
+		[vscode.l10n.t('Deleted characters'), String(statistics.deletedCharacters)],
+		[vscode.l10n.t('Insertions per minute'), String(statistics.insertionsPerMinute)],
+		[vscode.l10n.t('Characters per minute'), String(statistics.charactersPerMinute)],
+		[vscode.l10n.t('File switches'), String(statistics.fileSwitches)],
+	]
+	const idlePeriods = statistics.longestIdlePeriods.map(
+		period =>
+			`- ${vscode.l10n.t('{duration} from {time}', {
+				duration: formatDuration(period.duration),
+				time: formatDuration(period.startTime),
+			})}`
+	)
+
+	return `# ${vscode.l10n.t('Statistics of {name}', { name })}
+
+${overview.map(([label, value]) => `- **${label}:** ${value}`).join('\n')}
+
+## ${vscode.l10n.t('Time per file')}
+
+${buildTimeTable(vscode.l10n.t('File'), statistics.timePerFile, statistics.duration)}
+
+## ${vscode.l10n.t('Time per language')}
+
+${buildTimeTable(vscode.l10n.t('Language'), statistics.timePerLanguage, statistics.duration)}
+
+## ${vscode.l10n.t('Longest idle periods')}
+
+${idlePeriods.join('\n')}
+`
+}
+
+/**
+ * Computes the statistics of a recording from its source CSV file or, when there is none,
+ * from its JSON export, and writes them to `stats.json` and a Markdown summary.
+ * @param sessionPath - The path to the session folder.
+ * @returns The path to the Markdown summary, or `undefined` if nothing was written.
+ */
+export async function writeRecordingStatistics(sessionPath: string): Promise<string | undefined> {
+	const sourcePath = resolveRecordingSource(sessionPath)
+	if (!sourcePath) {
+		return
+	}
+
+	const { events, endTime } =
+		path.basename(sourcePath) === SOURCE_FILE_NAME
+			? await readCsvActivity(sourcePath)
+			: readJsonActivity(sourcePath)
+	const statistics = computeStatistics(events, endTime)
+
+	const name = path.basename(sessionPath)
+	const summaryPath = path.join(sessionPath, STATISTICS_SUMMARY_FILE_NAME)
+	await fs.promises.writeFile(
+		path.join(sessionPath, STATISTICS_FILE_NAME),
+		JSON.stringify(statistics, null, 2)
+	)
+	await fs.promises.writeFile(summaryPath, buildStatisticsSummary(name, statistics))
+	logToOutput(vscode.l10n.t('Statistics written: {name}', { name }), 'success')
+	return summaryPath
+}
@@ -0,0 +1,139 @@
+import * as assert from 'node:assert'
+import { cutRecording, getSequenceIntervals, parseRanges, parseTime } from '../editing'
+import type { Change, ProcessedRecording } from '../types'
+
+/**
+ * Builds a change of the file `a.txt`.
+ * @param sequence - The sequence number of the change.
+ * @param startTime - The start time of the change.
+ * @param endTime - The end time of the change.
+ * @param text - The text of the file.
+ * @returns The change.
+ */
+const buildChange = (
+	sequence: number,
+	startTime: number,
+	endTime: number,
+	text: string
+): Change => ({
+	sequence,
+	file: 'a.txt',
+	startTime,
+	endTime,
+	language: 'plaintext',
+	text,
+})
+
+suite('Editing Tests', () => {
+	const processedRecording: ProcessedRecording = {
+		changes: [
+			buildChange(1, 0, 1000, 'H'),
+			buildChange(2, 1000, 2000, 'He'),
+			buildChange(3, 2000, 3000, 'Hel'),
+			buildChange(4, 3000, 4000, 'Hell'),
+			buildChange(5, 4000, 5000, 'Hello'),
+		],
+		terminalChanges: [
+			{
+				sequence: 1,
+				terminal: 'bash',
+				startTime: 1500,
+				endTime: 1600,
+				command: 'ls',
+				output: '',
+			},
+			{
+				sequence: 2,
+				terminal: 'bash',
+				startTime: 3500,
+				endTime: 4500,
+				command: 'npm test',
+				output: '',
+			},
+		],
+		chapters: [
+			{ sequence: 1, title: 'Intro', startTime: 0, endTime: 1500 },
+			{ sequence: 2, title: 'Test', startTime: 1500, endTime: 5000 },
+		],
+	}
+
+	test('Should parse times and ranges', () => {
+		assert.strictEqual(parseTime('5'), 5000)
+		assert.strictEqual(parseTime('1:02.5'), 62500)
+		assert.strictEqual(parseTime('1:00:00'), 3600000)
+		assert.strictEqual(parseTime('1:2:3:4'), undefined)
+		assert.strictEqual(parseTime('abc'), undefined)
+		assert.deepStrictEqual(parseRanges('0:01-0:02, 10-12', parseTime), [
+			{ start: 1000, end: 2000 },
+			{ start: 10000, end: 12000 },
+		])
+		assert.strictEqual(parseRanges('0:02-0:01', parseTime), undefined)
+	})
+
+	test('Should cut intervals keeping the text of the following changes', () => {
+		const { changes, terminalChanges, chapters } = cutRecording(processedRecording, [
+			{ start: 1000, end: 3500 },
+		])
+
+		assert.deepStrictEqual(
+			changes.map(change => [change.sequence, change.startTime, change.endTime, change.text]),
+			[
+				[1, 0, 1000, 'H'],
+				[2, 1000, 1500, 'Hell'],
+				[3, 1500, 2500, 'Hello'],
+			]
+		)
+		assert.deepStrictEqual(
+			terminalChanges.map(terminalChange => [
+				terminalChange.sequence,
+				terminalChange.startTime,
+				terminalChange.endTime,
+			]),
+			[[1, 1000, 2000]]
+		)
+		assert.deepStrictEqual(
+			chapters.map(chapter => [
+				chapter.sequence,
+				chapter.title,
+				chapter.startTime,
+				chapter.endTime,
+			]),
+			[
+				[1, 'Intro', 0, 1000],
+				[2, 'Test', 1000, 2500],
+			]
+		)
+	})
+
+	test('Should trim the start and the end', () => {
+		const { changes } = cutRecording(processedRecording, [
+			{ start: 0, end: 1500 },
+			{ start: 3500, end: Number.POSITIVE_INFINITY },
+		])
+
+		assert.deepStrictEqual(
+			changes.map(change => [change.sequence, change.startTime, change.endTime, change.text]),
+			[
+				[1, 0, 500, 'He'],
+				[2, 500, 1500, 'Hel'],
+				[3, 1500, 2000, 'Hell'],
+			]
+		)
+	})
+
+	test('Should cut changes by sequence number', () => {
+		const intervals = getSequenceIntervals(processedRecording.changes, [{ start: 2, end: 3 }])
+		assert.deepStrictEqual(intervals, [{ start: 1000, end: 3000 }])
+
+		const { changes } = cutRecording(processedRecording, intervals)
+
+		assert.deepStrictEqual(
+			changes.map(change => [change.startTime, change.text]),
+			[
+				[0, 'H'],
+				[1000, 'Hell'],
+				[2000, 'Hello'],
+			]
+		)
+	})
+})
@@ -0,0 +1,490 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { exportRecording, processCsvFile } from '../processing'
+import { expandDiffRecording } from '../jsonDiff'
+import { readRecordingChapters } from '../replay'
+import { writeEditedManifest } from '../manifest'
+import { buildCsvHeader, buildCsvLine, readCsvFile } from '../csv'
+import { getConfig } from '../utilities'
+
+const LEGACY_CSV_HEADING = 'Sequence,Time,File,RangeOffset,RangeLength,Text,Language,Type'
+
+suite('Processing Tests', () => {
+	let sessionPath: string
+
+	setup(() => {
+		sessionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-code-recorder-'))
+	})
+
+	teardown(async () => {
+		fs.rmSync(sessionPath, { recursive: true, force: true })
+		await getConfig().update('export.srtCuePreset', undefined)
+		await getConfig().update('export.srtCueTemplate', undefined)
+		await getConfig().update('export.maxIdleTime', undefined)
+		await getConfig().update('export.markIdleTime', undefined)
+		await getConfig().update('export.speedFactor', undefined)
+	})
+
+	/**
+	 * Writes a source CSV file in the session folder.
+	 * @param rows - The rows of the CSV file, without the heading.
+	 * @returns The path to the CSV file.
+	 */
+	const writeSourceCsv = (rows: string[]) => {
+		const csvPath = path.join(sessionPath, 'source.csv')
+		fs.writeFileSync(csvPath, `${buildCsvHeader()}${rows.join('\n')}\n`)
+		return csvPath
+	}
+
+	test('Should read back the text written to the source CSV file', async () => {
+		const text = 'printf("a,b\\n");\r\n\tconst s = "say ""hi""";\nlast'
+		const csvPath = path.join(sessionPath, 'source.csv')
+		fs.writeFileSync(
+			csvPath,
+			buildCsvHeader() +
+				buildCsvLine({
+					sequence: 1,
+					time: 0,
+					file: 'src/a,b.c',
+					rangeOffset: 0,
+					rangeLength: 0,
+					text,
+					language: 'c',
+					type: 'tab',
+				})
+		)
+
+		const rows = []
+		for await (const row of readCsvFile(csvPath)) {
+			rows.push(row)
+		}
+
+		assert.strictEqual(rows.length, 1)
+		assert.strictEqual(rows[0].file, 'src/a,b.c')
+		assert.strictEqual(rows[0].text, text)
+	})
+
+	test('Should read the terminal of the terminal rows apart from the file', async () => {
+		const line = buildCsvLine({
+			sequence: 1,
+			time: 0,
+			file: '',
+			rangeOffset: 0,
+			rangeLength: 0,
+			text: 'npm test',
+			language: '',
+			type: 'terminal',
+			terminal: { name: 'bash', event: 'input' },
+		})
+		assert.strictEqual(line, '1,0,"bash",0,0,"npm test",input,terminal\n')
+		const csvPath = path.join(sessionPath, 'source.csv')
+		fs.writeFileSync(csvPath, buildCsvHeader() + line)
+
+		const rows = []
+		for await (const row of readCsvFile(csvPath)) {
+			rows.push(row)
+		}
+
+		assert.strictEqual(rows[0].file, '')
+		assert.strictEqual(rows[0].language, '')
+		assert.deepStrictEqual(rows[0].terminal, { name: 'bash', event: 'input' })
+	})
+
+	test('Should migrate legacy source CSV files', async () => {
+		const csvPath = path.join(sessionPath, 'source.csv')
+		fs.writeFileSync(
+			csvPath,
+			`${LEGACY_CSV_HEADING}\n1,0,"a.txt",0,0,"say ""hi""\\nbye",plaintext,tab\n`
+		)
+
+		const { changes } = await processCsvFile(csvPath)
+
+		assert.strictEqual(changes[0].text, 'say "hi"\nbye')
+	})
+
+	test('Should drop a row cut by an interrupted recording', async () => {
+		const csvPath = path.join(sessionPath, 'source.csv')
+		fs.writeFileSync(
+			csvPath,
+			`${buildCsvHeader()}1,0,"a.txt",0,0,"Hello",plaintext,tab\n2,100,"a.txt",5,0,"\nWor`
+		)
+
+		const { changes } = await processCsvFile(csvPath)
+
+		assert.deepStrictEqual(
+			changes.map(change => change.text),
+			['Hello']
+		)
+	})
+
+	test('Should reject source CSV files of a newer version', async () => {
+		const csvPath = path.join(sessionPath, 'source.csv')
+		fs.writeFileSync(csvPath, 'vs-code-recorder,99\n')
+
+		await assert.rejects(processCsvFile(csvPath), /Unsupported source CSV version/)
+	})
+
+	test('Should rebuild the text of each file independently', async () => {
+		const csvPath = writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,100,"b.txt",0,0,"World",plaintext,snapshot',
+			'3,200,"a.txt",5,0,"!",plaintext,content',
+			'4,300,"b.txt",0,5,"Earth",plaintext,content',
+		])
+
+		const { changes } = await processCsvFile(csvPath, 500)
+
+		assert.deepStrictEqual(
+			changes.map(change => [change.file, change.text, change.startTime, change.endTime]),
+			[
+				['a.txt', 'Hello', 0, 100],
+				['b.txt', 'World', 100, 200],
+				['a.txt', 'Hello!', 200, 300],
+				['b.txt', 'Earth', 300, 500],
+			]
+		)
+	})
+
+	test('Should collapse paused intervals', async () => {
+		const csvPath = writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,100,"a.txt",0,0,"",plaintext,pause',
+			'3,1100,"a.txt",0,0,"",plaintext,resume',
+			'4,1100,"a.txt",0,0,"Hello",plaintext,tab',
+			'5,1200,"a.txt",5,0,"!",plaintext,content',
+		])
+
+		const { changes } = await processCsvFile(csvPath)
+
+		assert.deepStrictEqual(
+			changes.map(change => [change.text, change.startTime, change.endTime]),
+			[
+				['Hello', 0, 100],
+				['Hello', 100, 200],
+				['Hello!', 200, 200],
+			]
+		)
+	})
+
+	test('Should generate exports from the source CSV file alone', async () => {
+		writeSourceCsv(['1,0,"a.txt",0,0,"Hello",plaintext,tab'])
+
+		await exportRecording(sessionPath, ['JSON', 'SRT'])
+
+		const recording = JSON.parse(fs.readFileSync(path.join(sessionPath, 'recording.json'), 'utf-8'))
+		assert.strictEqual(recording.version, 1)
+		assert.strictEqual(recording.changes.length, 1)
+		assert.strictEqual(recording.changes[0].text, 'Hello')
+		assert.deepStrictEqual(recording.chapters, [], 'JSON file should always have the chapters')
+		assert.ok(fs.existsSync(path.join(sessionPath, 'recording.srt')), 'SRT file should be created')
+	})
+
+	test('Should write the SRT cues with the selected template', async () => {
+		writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello\n\nWorld",plaintext,tab',
+			'2,100,"a.txt",12,0,"!",plaintext,content',
+			'3,200,"a.txt",0,5,"",plaintext,content',
+		])
+		const srtPath = path.join(sessionPath, 'recording.srt')
+
+		await getConfig().update('export.srtCuePreset', 'currentLine')
+		await exportRecording(sessionPath, ['SRT'], 300)
+
+		assert.strictEqual(
+			fs.readFileSync(srtPath, 'utf-8'),
+			'1\n00:00:00,000 --> 00:00:00,100\na.txt:1 Hello\n\n' +
+				'2\n00:00:00,100 --> 00:00:00,200\na.txt:3 World!\n\n' +
+				'3\n00:00:00,200 --> 00:00:00,300\na.txt:1\n\n'
+		)
+
+		await getConfig().update('export.srtCuePreset', 'custom')
+		await getConfig().update('export.srtCueTemplate', '{insertedText}')
+		await exportRecording(sessionPath, ['SRT'], 300)
+
+		// The cues without text are skipped
+		assert.strictEqual(fs.readFileSync(srtPath, 'utf-8'), '1\n00:00:00,100 --> 00:00:00,200\n!\n\n')
+	})
+
+	test('Should generate a diff-based JSON file rebuilding the same changes', async () => {
+		const csvPath = writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,100,"b.txt",0,0,"World",plaintext,snapshot',
+			'3,200,"a.txt",5,0,"!",plaintext,content',
+			'4,300,"a.txt",0,0,"",plaintext,selection',
+			'5,400,"b.txt",0,5,"Earth",plaintext,content',
+			'6,500,"a.txt",0,1,"J",plaintext,content',
+		])
+
+		await exportRecording(sessionPath, ['JSON_DIFF'], 600)
+
+		const diffRecording = JSON.parse(
+			fs.readFileSync(path.join(sessionPath, 'recording.diff.json'), 'utf-8')
+		)
+		assert.strictEqual(diffRecording.version, 1)
+		assert.strictEqual(diffRecording.changes[0].keyframe, 'Hello')
+		assert.deepStrictEqual(diffRecording.changes[2].delta, {
+			rangeOffset: 5,
+			rangeLength: 0,
+			text: '!',
+		})
+		// Compare with the JSON export, where the undefined properties are omitted
+		const changes = JSON.parse(JSON.stringify((await processCsvFile(csvPath, 600)).changes))
+		assert.deepStrictEqual(expandDiffRecording(diffRecording), changes)
+	})
+
+	test('Should export the terminal commands as a separate track', async () => {
+		const csvPath = writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,100,"bash",0,0,"npm test",input,terminal',
+			'3,200,"bash",0,0,"\u001b[32mpassing\u001b[0m\r\n",output,terminal',
+			'4,300,"bash",0,0,"0",exit,terminal',
+			'5,400,"a.txt",5,0,"!",plaintext,content',
+			'6,500,"bash",0,0,"git status",input,terminal',
+		])
+
+		const { changes, terminalChanges } = await processCsvFile(csvPath, 600)
+
+		assert.deepStrictEqual(
+			changes.map(change => change.text),
+			['Hello', 'Hello!']
+		)
+		assert.deepStrictEqual(terminalChanges, [
+			{
+				sequence: 1,
+				terminal: 'bash',
+				startTime: 100,
+				endTime: 300,
+				command: 'npm test',
+				output: 'passing\n',
+				exitCode: 0,
+			},
+			{
+				sequence: 2,
+				terminal: 'bash',
+				startTime: 500,
+				endTime: 600,
+				command: 'git status',
+				output: '',
+			},
+		])
+
+		await exportRecording(sessionPath, ['JSON', 'SRT'], 600)
+
+		assert.ok(
+			fs.existsSync(path.join(sessionPath, 'recording.terminal.json')),
+			'Terminal JSON file should be created'
+		)
+		assert.ok(
+			fs.existsSync(path.join(sessionPath, 'recording.terminal.srt')),
+			'Terminal SRT file should be created'
+		)
+	})
+
+	test('Should compress the idle gaps and speed up the timeline', async () => {
+		const csvPath = writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,1000,"a.txt",5,0,"!",plaintext,content',
+			'3,10000,"a.txt",6,0,"!",plaintext,content',
+			'4,10500,"bash",0,0,"npm test",input,terminal',
+		])
+
+		await getConfig().update('export.maxIdleTime', 2)
+		await getConfig().update('export.markIdleTime', true)
+		const { changes, terminalChanges } = await processCsvFile(csvPath, 20000)
+
+		assert.deepStrictEqual(
+			changes.map(change => [change.text, change.startTime, change.endTime, change.idle]),
+			[
+				['Hello', 0, 1000, undefined],
+				['Hello!', 1000, 2000, undefined],
+				['Hello!', 2000, 3000, true],
+				['Hello!!', 3000, 4500, undefined],
+				['Hello!!', 4500, 5500, true],
+			]
+		)
+		assert.strictEqual(terminalChanges[0].startTime, 3500)
+
+		await getConfig().update('export.markIdleTime', undefined)
+		await getConfig().update('export.speedFactor', 2)
+		const { changes: fastChanges } = await processCsvFile(csvPath, 20000)
+
+		// The gaps are limited in the sped up timeline
+		assert.deepStrictEqual(
+			fastChanges.map(change => [change.startTime, change.endTime]),
+			[
+				[0, 500],
+				[500, 2500],
+				[2500, 4750],
+			]
+		)
+	})
+
+	test('Should export the markers as chapters', async () => {
+		const csvPath = writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,100,"a.txt",0,0,"Intro",plaintext,marker',
+			'3,200,"a.txt",0,0,"",plaintext,pause',
+			'4,1200,"a.txt",0,0,"Now we add the test",plaintext,marker',
+			'5,1500,"a.txt",0,0,"",plaintext,resume',
+			'6,1600,"a.txt",5,0,"!",plaintext,content',
+			'7,1750,"a.txt",0,0,"",plaintext,pause',
+			'8,2250,"a.txt",0,0,"",plaintext,resume',
+			// Placed before the last pause, but confirmed after it
+			'9,1700,"a.txt",0,0,"Wrap up",plaintext,marker',
+		])
+
+		const { changes, chapters } = await processCsvFile(csvPath, 2500)
+
+		assert.deepStrictEqual(
+			changes.map(change => change.text),
+			['Hello', 'Hello!']
+		)
+		assert.deepStrictEqual(chapters, [
+			{ sequence: 1, title: 'Intro', startTime: 100, endTime: 200 },
+			{ sequence: 2, title: 'Now we add the test', startTime: 200, endTime: 400 },
+			{ sequence: 3, title: 'Wrap up', startTime: 400, endTime: 700 },
+		])
+
+		await exportRecording(sessionPath, ['JSON', 'SRT'], 2500)
+
+		const recording = JSON.parse(fs.readFileSync(path.join(sessionPath, 'recording.json'), 'utf-8'))
+		assert.strictEqual(recording.changes.length, 2)
+		assert.deepStrictEqual(recording.chapters, chapters)
+		assert.deepStrictEqual(readRecordingChapters(sessionPath), chapters)
+		const srt = fs.readFileSync(path.join(sessionPath, 'recording.srt'), 'utf-8')
+		assert.ok(
+			srt.includes('2\n00:00:00,100 --> 00:00:00,200\n{"chapter":"Intro"}\n\n'),
+			'SRT file should have a cue for each chapter'
+		)
+		assert.ok(!fs.existsSync(path.join(sessionPath, 'recording.chapters.srt')))
+	})
+
+	test('Should write the session manifest when the recording is processed', async () => {
+		writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,100,"b.txt",0,0,"World",plaintext,snapshot',
+		])
+		const manifestPath = path.join(sessionPath, 'manifest.json')
+		fs.writeFileSync(manifestPath, JSON.stringify({ startTime: '2024-05-15T09:30:05.000Z' }))
+
+		await exportRecording(sessionPath, ['JSON'], 500)
+
+		const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))
+		assert.strictEqual(manifest.duration, 500)
+		assert.deepStrictEqual(manifest.files, ['a.txt', 'b.txt'])
+		assert.deepStrictEqual(manifest.exportSettings.exportFormats, ['JSON'])
+		assert.strictEqual(
+			manifest.endTime,
+			'2024-05-15T09:30:05.500Z',
+			'Manifest should have the recorded end time'
+		)
+		assert.strictEqual(manifest.git, undefined, 'Only a stopped recording has the git end state')
+
+		// Processing the session again keeps the end time, even with a shorter exported timeline
+		await getConfig().update('export.speedFactor', 2)
+		await exportRecording(sessionPath, ['JSON', 'SRT'])
+
+		const updatedManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))
+		assert.strictEqual(updatedManifest.endTime, manifest.endTime)
+		assert.deepStrictEqual(updatedManifest.exportSettings.exportFormats, ['JSON', 'SRT'])
+	})
+
+	test('Should write the manifest of an edited session from its timeline', async () => {
+		fs.writeFileSync(
+			path.join(sessionPath, 'manifest.json'),
+			JSON.stringify({
+				recordedBy: 'Ada',
+				startTime: '2024-05-15T09:30:05.000Z',
+				endTime: '2024-05-15T09:31:05.000Z',
+				duration: 60000,
+				git: { start: { commit: 'abc' } },
+			})
+		)
+		const editedSessionPath = `${sessionPath}-edited`
+
+		try {
+			await writeEditedManifest(editedSessionPath, sessionPath, 1500)
+
+			const manifest = JSON.parse(
+				fs.readFileSync(path.join(editedSessionPath, 'manifest.json'), 'utf-8')
+			)
+			assert.strictEqual(manifest.recordedBy, 'Ada')
+			assert.strictEqual(manifest.derivedFrom, path.basename(sessionPath))
+			assert.strictEqual(manifest.startTime, '2024-05-15T09:30:05.000Z')
+			assert.strictEqual(manifest.endTime, '2024-05-15T09:30:06.500Z')
+			assert.strictEqual(manifest.duration, 1500)
+			assert.strictEqual(manifest.git, undefined)
+		} finally {
+			fs.rmSync(editedSessionPath, { recursive: true, force: true })
+		}
+	})
+
+	test('Should generate an asciicast v2 file', async () => {
+		writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,1500,"a.txt",5,0,"\nWorld",plaintext,content',
+		])
+
+		await exportRecording(sessionPath, ['ASCIICAST'], 2000)
+
+		const lines = fs
+			.readFileSync(path.join(sessionPath, 'recording.cast'), 'utf-8')
+			.trim()
+			.split('\n')
+			.map(line => JSON.parse(line))
+		assert.deepStrictEqual(lines[0].version, 2)
+		assert.deepStrictEqual(
+			lines.slice(1).map(event => [event[0], event[1]]),
+			[
+				[0, 'o'],
+				[1.5, 'o'],
+				[2, 'o'],
+			]
+		)
+		assert.ok(lines[2][2].includes('Hello\r\nWorld'), 'Frame should render the text lines')
+	})
+
+	test('Should generate WebVTT files with readable cues and a metadata track', async () => {
+		writeSourceCsv([
+			'1,0,"a.txt",0,0,"Hello",plaintext,tab',
+			'2,1500,"a.txt",5,0,"<b>",plaintext,content',
+			'3,2000,"a.txt",0,2,"",plaintext,content',
+			'4,2500,"a.txt",0,0,"-->",plaintext,marker',
+		])
+
+		await exportRecording(sessionPath, ['VTT'], 3000)
+
+		const vtt = fs.readFileSync(path.join(sessionPath, 'recording.vtt'), 'utf-8')
+		assert.ok(vtt.startsWith('WEBVTT\n\nSTYLE\n'), 'WebVTT file should start with its header')
+		assert.ok(
+			vtt.includes(
+				'2\n00:00:01.500 --> 00:00:02.000\n<c.file>a.txt</c> <c.language>plaintext</c>\n' +
+					'<c.summary>Typed "&lt;b&gt;"</c>\n\n'
+			),
+			'Cue should summarize the typed text'
+		)
+		assert.ok(vtt.includes('<c.summary>Deleted 2 characters</c>'), 'Cue should count deletions')
+
+		const metadata = fs.readFileSync(path.join(sessionPath, 'recording.metadata.vtt'), 'utf-8')
+		const payload = metadata.split('\n')[8]
+		assert.strictEqual(JSON.parse(payload).text, 'Hello<b>')
+
+		const chapters = fs.readFileSync(path.join(sessionPath, 'recording.chapters.vtt'), 'utf-8')
+		assert.strictEqual(chapters, 'WEBVTT\n\n1\n00:00:02.500 --> 00:00:03.000\n--&gt;\n\n')
+	})
+
+	test('Should generate a standalone HTML player', async () => {
+		writeSourceCsv(['1,0,"a.txt",0,0,"</script><b>",plaintext,tab'])
+
+		await exportRecording(sessionPath, ['HTML'])
+
+		const html = fs.readFileSync(path.join(sessionPath, 'recording.html'), 'utf-8')
+		const data = html.match(
+			/<script type="application\/json" id="recording-data">(.*)<\/script>/
+		)?.[1]
+		assert.ok(data, 'HTML file should embed the recording data')
+		assert.strictEqual(JSON.parse(data)[0].text, '</script><b>')
+	})
+})
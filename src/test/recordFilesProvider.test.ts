@@ -0,0 +1,95 @@
+import * as assert from 'node:assert'
+import {
+	type SessionInfo,
+	getDateGroup,
+	groupSessions,
+	matchesFilter,
+	parseSessionFolderName,
+	sortSessions,
+} from '../recordFilesProvider'
+
+/**
+ * Builds the data of a session folder.
+ * @param name - The name of the session folder.
+ * @param date - The start time of the session.
+ * @param duration - The duration of the session.
+ * @param size - The size of the session folder.
+ * @returns The data of the session.
+ */
+const buildSession = (name: string, date: Date, duration?: number, size = 0): SessionInfo => ({
+	name,
+	path: `/recordings/${name}`,
+	folderName: parseSessionFolderName(name)?.folderName,
+	date,
+	duration,
+	size,
+})
+
+suite('Record Files Provider Tests', () => {
+	const now = new Date(2024, 4, 15, 12)
+
+	test('Should parse the folder name and the start time of a session folder', () => {
+		assert.deepStrictEqual(parseSessionFolderName('retro-2024_05_15-09.30.05.123'), {
+			folderName: 'retro',
+			date: new Date(2024, 4, 15, 9, 30, 5, 123),
+		})
+		assert.strictEqual(
+			parseSessionFolderName('vs-code-recorder-2024_05_15-09.30.05.12-edited-2')?.folderName,
+			'vs-code-recorder'
+		)
+		assert.strictEqual(parseSessionFolderName('my recordings'), undefined)
+	})
+
+	test('Should group the sessions by date and by folder name', () => {
+		assert.strictEqual(getDateGroup(new Date(2024, 4, 15, 8), now), 'Today')
+		assert.strictEqual(getDateGroup(new Date(2024, 4, 9), now), 'This Week')
+		assert.strictEqual(getDateGroup(new Date(2024, 4, 8, 23), now), 'Older')
+
+		const sessions = [
+			buildSession('vs-code-recorder-2024_05_15-09.30.05.123', now),
+			buildSession('retro-2024_05_14-09.30.05.123', now),
+			buildSession('demo-2024_05_13-09.30.05.123', now),
+			buildSession('retro-2024_05_12-09.30.05.123', now),
+		]
+		assert.deepStrictEqual(
+			groupSessions(sessions, 'name').map(([label, groupItems]) => [
+				label,
+				groupItems.map(session => session.name.slice(-23, -13)),
+			]),
+			[
+				['demo', ['2024_05_13']],
+				['retro', ['2024_05_14', '2024_05_12']],
+				['Unnamed', ['2024_05_15']],
+			]
+		)
+	})
+
+	test('Should sort and filter the sessions', () => {
+		const sessions = [
+			buildSession('a', new Date(2024, 4, 1), 5000, 300),
+			buildSession('b', new Date(2024, 4, 3), undefined, 100),
+			buildSession('c', new Date(2024, 4, 2), 9000, 200),
+		]
+		const names = (sorting: Parameters<typeof sortSessions>[1]) =>
+			sortSessions([...sessions], sorting).map(session => session.name)
+
+		assert.deepStrictEqual(names('date'), ['b', 'c', 'a'])
+		assert.deepStrictEqual(names('name'), ['a', 'b', 'c'])
+		assert.deepStrictEqual(names('duration'), ['c', 'a', 'b'])
+		assert.deepStrictEqual(names('size'), ['a', 'c', 'b'])
+
+		const session: SessionInfo = {
+			...sessions[0],
+			manifest: {
+				version: 1,
+				vscodeVersion: '1.93.0',
+				extensionVersion: '1.1.1',
+				files: ['src/Parser.ts'],
+				git: { end: { branch: 'feature/retro' } },
+			},
+		}
+		assert.ok(matchesFilter(session, 'parser'))
+		assert.ok(matchesFilter(session, 'RETRO'))
+		assert.ok(!matchesFilter(session, 'lexer'))
+	})
+})
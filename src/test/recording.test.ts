@@ -2,8 +2,8 @@ import * as assert from 'node:assert'
 import * as vscode from 'vscode'
 import * as path from 'node:path'
 import * as fs from 'node:fs'
-import { setDefaultOptions, getConfig } from '../utilities'
-import { statusBarItem } from '../extension'
+import { setDefaultOptions, getConfig, resolveExportPath } from '../utilities'
+import { statusBarItem, pauseStatusBarItem } from '../extension'
 
 /**
  * Waits for the specified number of milliseconds and then resolves the returned Promise.
@@ -87,6 +87,39 @@ suite('Recording Tests', () => {
 		)
 	})
 
+	test('Should pause and resume recording', async () => {
+		await vscode.commands.executeCommand(`${extensionName}.startRecording`)
+
+		await vscode.commands.executeCommand(`${extensionName}.pauseRecording`)
+		assert.strictEqual(
+			pauseStatusBarItem.text.includes('$(debug-continue)'),
+			true,
+			'Should be visible the resume icon'
+		)
+		assert.strictEqual(
+			pauseStatusBarItem.tooltip?.toString().includes('Resume Recording'),
+			true,
+			"Pause status bar item tooltip should be 'Resume Recording'"
+		)
+		assert.strictEqual(
+			statusBarSpy.text.includes('$(debug-stop)'),
+			true,
+			'Should be still visible the stop icon'
+		)
+
+		await vscode.commands.executeCommand(`${extensionName}.resumeRecording`)
+		assert.strictEqual(
+			pauseStatusBarItem.text.includes('$(debug-pause)'),
+			true,
+			'Should be visible the pause icon'
+		)
+		assert.strictEqual(
+			pauseStatusBarItem.tooltip?.toString().includes('Pause Recording'),
+			true,
+			"Pause status bar item tooltip should be 'Pause Recording'"
+		)
+	})
+
 	test('Should create CSV file when recording starts', async () => {
 		await vscode.commands.executeCommand(`${extensionName}.startRecording`)
 
@@ -219,6 +252,9 @@ suite('Recording Tests', () => {
 	}
 
 	test('Should record file changes and verify exports', async () => {
+		// Selections are covered by their own test
+		await getConfig().update('recording.recordSelections', false)
+
 		// Create and write to new file using VS Code API
 		const testFileUri = vscode.Uri.file(path.join(workspaceFolder, 'test.txt'))
 		const initialContent = 'This is an example recording'
@@ -243,6 +279,7 @@ suite('Recording Tests', () => {
 		const csvPath = path.join(workspaceFolder, csvFilename)
 
 		const csvExpectedLines = [
+			'vs-code-recorder,2',
 			'Sequence,Time,File,RangeOffset,RangeLength,Text,Language,Type',
 			'1,%n,"test.txt",0,0,"",plaintext,tab',
 		]
@@ -285,9 +322,11 @@ suite('Recording Tests', () => {
 		if (jsonFile) {
 			const jsonContent = JSON.parse(fs.readFileSync(path.join(workspaceFolder, jsonFile), 'utf-8'))
 			// biome-ignore lint/suspicious/noExplicitAny: <explanation>
-			assert.ok(jsonContent.some((change: any) => change.text.includes(initialContent)))
-			// biome-ignore lint/suspicious/noExplicitAny: <explanation>
-			assert.ok(jsonContent.some((change: any) => change.text.includes('This is a recording')))
+			assert.ok(jsonContent.changes.some((change: any) => change.text.includes(initialContent)))
+			assert.ok(
+				// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+				jsonContent.changes.some((change: any) => change.text.includes('This is a recording'))
+			)
 		}
 
 		if (srtFile) {
@@ -296,4 +335,138 @@ suite('Recording Tests', () => {
 			assert.ok(srtContent.includes('This is a recording'))
 		}
 	})
+
+	test('Should record selection changes', async () => {
+		await getConfig().update('recording.recordSelections', true)
+
+		const testFileUri = vscode.Uri.file(path.join(workspaceFolder, 'test.txt'))
+		const content = 'This is an example recording'
+		await vscode.workspace.fs.writeFile(testFileUri, Buffer.from(content))
+
+		const doc = await vscode.workspace.openTextDocument(testFileUri)
+		const editor = await vscode.window.showTextDocument(doc)
+
+		await vscode.commands.executeCommand(`${extensionName}.startRecording`)
+		await waitMs()
+
+		const csvFilename = fs.readdirSync(workspaceFolder).find(f => f.endsWith('.csv'))
+		assert.ok(csvFilename, 'CSV file should be created')
+
+		// Select the word "example"
+		const startPos = content.indexOf('example')
+		editor.selection = new vscode.Selection(
+			new vscode.Position(0, startPos),
+			new vscode.Position(0, startPos + 'example'.length)
+		)
+		await waitMs(1000)
+
+		const csvContent = fs.readFileSync(path.join(workspaceFolder, csvFilename), 'utf-8')
+		assert.ok(
+			csvContent
+				.split('\n')
+				.some(line => /^\d+,\d+,"test.txt",11,7,"",plaintext,selection$/.test(line)),
+			'CSV file should contain the selection row'
+		)
+
+		// Typing over the selection moves the cursor without a selection row
+		await vscode.commands.executeCommand('type', { text: '!' })
+		await waitMs(1000)
+		assert.ok(
+			!fs
+				.readFileSync(path.join(workspaceFolder, csvFilename), 'utf-8')
+				.split('\n')
+				.some(line => /^\d+,\d+,"test.txt",12,0,"",plaintext,selection$/.test(line)),
+			'CSV file should not contain the selection row of the typed text'
+		)
+
+		await vscode.commands.executeCommand(`${extensionName}.stopRecording`)
+	})
+
+	test('Should never write a secret typed after its key', async () => {
+		const secret = 'hunter2hunter2'
+		const testFileUri = vscode.Uri.file(path.join(workspaceFolder, 'test.txt'))
+		await vscode.workspace.fs.writeFile(testFileUri, Buffer.from(''))
+
+		const doc = await vscode.workspace.openTextDocument(testFileUri)
+		const editor = await vscode.window.showTextDocument(doc)
+
+		await vscode.commands.executeCommand(`${extensionName}.startRecording`)
+		await waitMs()
+
+		await editor.edit(editBuilder => {
+			editBuilder.insert(new vscode.Position(0, 0), 'const password = "')
+		})
+		for (const character of `${secret}"`) {
+			await editor.edit(editBuilder => {
+				editBuilder.insert(doc.lineAt(0).range.end, character)
+			})
+		}
+		await vscode.commands.executeCommand(`${extensionName}.stopRecording`)
+		await waitMs(1000)
+
+		const csvFilename = fs.readdirSync(workspaceFolder).find(f => f.endsWith('.csv'))
+		assert.ok(csvFilename, 'CSV file should be created')
+
+		const csvContent = fs.readFileSync(path.join(workspaceFolder, csvFilename), 'utf-8')
+		for (const character of new Set(secret)) {
+			assert.ok(
+				!csvContent.includes(`"${character}",plaintext,content`),
+				'CSV file should not contain the characters of the secret'
+			)
+		}
+		assert.ok(
+			csvContent.includes('"*",plaintext,content'),
+			'CSV file should contain the masked characters'
+		)
+	})
+
+	test('Should resolve the export path of a named workspace folder', async () => {
+		// biome-ignore lint/style/noNonNullAssertion: the workspace folder is created by the test suite
+		const folder = vscode.workspace.workspaceFolders![0]
+		await getConfig().update(
+			'export.exportPath',
+			`\${workspaceFolder:${folder.name}}/recordings`,
+			vscode.ConfigurationTarget.Workspace
+		)
+
+		assert.strictEqual(
+			resolveExportPath(),
+			`${folder.uri.fsPath.replaceAll('\\', '/')}/recordings/`
+		)
+
+		await getConfig().update(
+			'export.exportPath',
+			'${workspaceFolder:missing}/recordings',
+			vscode.ConfigurationTarget.Workspace
+		)
+
+		assert.strictEqual(resolveExportPath(), undefined)
+	})
+
+	test('Should not record the files filtered out by the settings', async () => {
+		await getConfig().update('recording.exclude', ['**/*.txt'])
+
+		const testFileUri = vscode.Uri.file(path.join(workspaceFolder, 'test.txt'))
+		await vscode.workspace.fs.writeFile(testFileUri, Buffer.from(''))
+
+		const doc = await vscode.workspace.openTextDocument(testFileUri)
+		const editor = await vscode.window.showTextDocument(doc)
+
+		await vscode.commands.executeCommand(`${extensionName}.startRecording`)
+		await waitMs()
+
+		await editor.edit(editBuilder => {
+			editBuilder.insert(new vscode.Position(0, 0), 'This is an example recording')
+		})
+		await waitMs(1000)
+
+		const csvFilename = fs.readdirSync(workspaceFolder).find(f => f.endsWith('.csv'))
+		assert.ok(csvFilename, 'CSV file should be created')
+
+		const csvContent = fs.readFileSync(path.join(workspaceFolder, csvFilename), 'utf-8')
+		assert.ok(!csvContent.includes('"test.txt"'), 'CSV file should not contain excluded files')
+
+		await vscode.commands.executeCommand(`${extensionName}.stopRecording`)
+		await getConfig().update('recording.exclude', undefined)
+	})
 })
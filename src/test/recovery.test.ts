@@ -0,0 +1,51 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { findUnfinishedSessions } from '../recovery'
+
+suite('Recovery Tests', () => {
+	let exportPath: string
+
+	/**
+	 * Creates a session folder in the export path.
+	 * @param name - The name of the session folder.
+	 * @param files - The content of the files of the session, by file name.
+	 */
+	const writeSession = (name: string, files: Record<string, string>) => {
+		const sessionPath = path.join(exportPath, name)
+		fs.mkdirSync(sessionPath)
+		for (const [fileName, content] of Object.entries(files)) {
+			fs.writeFileSync(path.join(sessionPath, fileName), content)
+		}
+	}
+
+	setup(() => {
+		exportPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-code-recorder-'))
+	})
+
+	teardown(() => {
+		fs.rmSync(exportPath, { recursive: true, force: true })
+	})
+
+	test('Should find only the sessions whose recording never stopped', () => {
+		const startManifest = JSON.stringify({ startTime: '2024-05-15T09:30:05.000Z' })
+		writeSession('crashed', { 'source.csv': '', 'manifest.json': startManifest })
+		writeSession('legacy', { 'source.csv': '' })
+		writeSession('processed', { 'source.csv': '', 'recording.json': '[]' })
+		writeSession('stopped-without-exports', {
+			'source.csv': '',
+			'manifest.json': JSON.stringify({
+				startTime: '2024-05-15T09:30:05.000Z',
+				endTime: '2024-05-15T09:31:05.000Z',
+			}),
+		})
+
+		assert.deepStrictEqual(
+			findUnfinishedSessions(exportPath)
+				.map(sessionPath => path.basename(sessionPath))
+				.sort(),
+			['crashed', 'legacy']
+		)
+	})
+})
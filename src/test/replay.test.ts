@@ -0,0 +1,84 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { findChangeIndex, readRecordingChanges, readRecordingChapters } from '../replay'
+import { buildDiffFile } from '../jsonDiff'
+import type { Change } from '../types'
+
+/**
+ * Builds a change of the file `a.ts`.
+ * @param sequence - The sequence number of the change.
+ * @param startTime - The start time of the change.
+ * @param text - The text of the file after the change.
+ * @returns The change, lasting until the next second.
+ */
+const buildChange = (sequence: number, startTime: number, text: string): Change => ({
+	sequence,
+	file: 'a.ts',
+	startTime,
+	endTime: startTime + 1000,
+	language: 'typescript',
+	text,
+})
+
+suite('Replay Tests', () => {
+	let sessionPath: string
+	const changes = [
+		buildChange(1, 0, ''),
+		buildChange(2, 1000, 'c'),
+		buildChange(3, 2000, 'co'),
+		buildChange(4, 2000, 'con'),
+		buildChange(5, 3000, 'const'),
+	]
+
+	setup(() => {
+		sessionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-code-recorder-'))
+	})
+
+	teardown(() => {
+		fs.rmSync(sessionPath, { recursive: true, force: true })
+	})
+
+	test('Should read the changes of the JSON and JSON_DIFF exports in order', () => {
+		const jsonPath = path.join(sessionPath, 'recording.json')
+		fs.writeFileSync(
+			jsonPath,
+			JSON.stringify({ version: 1, changes: [...changes].reverse(), chapters: [] })
+		)
+		assert.deepStrictEqual(readRecordingChanges(jsonPath), changes)
+
+		// Older JSON exports are the array of the changes
+		fs.writeFileSync(jsonPath, JSON.stringify([...changes].reverse()))
+		assert.deepStrictEqual(readRecordingChanges(jsonPath), changes)
+
+		const diffPath = path.join(sessionPath, 'recording.diff.json')
+		fs.writeFileSync(diffPath, buildDiffFile(changes, 2))
+		assert.deepStrictEqual(
+			readRecordingChanges(diffPath).map(change => change.text),
+			changes.map(change => change.text)
+		)
+	})
+
+	test('Should reject an invalid recording file', () => {
+		const jsonPath = path.join(sessionPath, 'recording.json')
+		fs.writeFileSync(jsonPath, '{}')
+		assert.throws(() => readRecordingChanges(jsonPath), /Invalid recording file/)
+	})
+
+	test('Should read no chapters from a malformed JSON export', () => {
+		fs.writeFileSync(path.join(sessionPath, 'recording.json'), '{"version": 1, "chapters": [')
+		assert.deepStrictEqual(readRecordingChapters(sessionPath), [])
+	})
+
+	test('Should step to the last change started by the playback time', () => {
+		assert.strictEqual(findChangeIndex(changes, -1), -1)
+		assert.strictEqual(findChangeIndex(changes, 0), 0)
+		assert.strictEqual(findChangeIndex(changes, 999), 0)
+		assert.strictEqual(findChangeIndex(changes, 1000), 1)
+		// The changes of the same time are shown together, ending on the last one
+		assert.strictEqual(findChangeIndex(changes, 2000), 3)
+		assert.strictEqual(findChangeIndex(changes, 10000), 4)
+		assert.strictEqual(findChangeIndex([], 1000), -1)
+	})
+})
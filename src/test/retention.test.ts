@@ -0,0 +1,109 @@
+import * as assert from 'node:assert'
+import { type RetainedSession, type RetentionPolicy, selectSessionsToPrune } from '../retention'
+
+const DAY = 24 * 60 * 60 * 1000
+const MEGABYTE = 1024 * 1024
+const NOW = new Date(2024, 4, 15).getTime()
+
+/**
+ * Builds a session folder of the export path.
+ * @param name - The name of the session folder.
+ * @param age - The age of the session in days.
+ * @param size - The size of the session folder in megabytes, half of it being the source CSV file.
+ * @param pinned - Whether the session is pinned.
+ * @returns The session.
+ */
+const buildSession = (name: string, age: number, size = 1, pinned = false): RetainedSession => ({
+	name,
+	path: `/recordings/${name}`,
+	date: new Date(NOW - age * DAY),
+	size: size * MEGABYTE,
+	sourceSize: (size / 2) * MEGABYTE,
+	hasExports: true,
+	pinned,
+})
+
+suite('Retention Tests', () => {
+	const sessions = [
+		buildSession('a', 40, 4),
+		buildSession('b', 20, 2, true),
+		buildSession('c', 10, 2),
+		buildSession('d', 5, 2),
+		buildSession('e', 1, 2),
+	]
+	const noLimits: RetentionPolicy = {
+		maxSessions: 0,
+		maxAge: 0,
+		maxTotalSize: 0,
+		deleteSourceOnly: false,
+	}
+
+	/**
+	 * Selects the sessions to delete with a retention policy.
+	 * @param policy - The limits of the retention policy.
+	 * @returns The names of the sessions to delete and the reasons.
+	 */
+	const prune = (policy: Partial<RetentionPolicy>) =>
+		selectSessionsToPrune(sessions, { ...noLimits, ...policy }, NOW).map(({ session, reason }) => [
+			session.name,
+			reason,
+		])
+
+	test('Should keep everything without limits', () => {
+		assert.deepStrictEqual(prune({}), [])
+	})
+
+	test('Should delete the oldest sessions over the maximum number and age, except the pinned ones', () => {
+		assert.deepStrictEqual(prune({ maxSessions: 2 }), [
+			['a', 'More than 2 recordings'],
+			['c', 'More than 2 recordings'],
+		])
+		assert.deepStrictEqual(prune({ maxAge: 15 }), [['a', 'Older than 15 days']])
+		assert.deepStrictEqual(prune({ maxSessions: 3, maxAge: 7 }), [
+			['a', 'More than 3 recordings'],
+			['c', 'Older than 7 days'],
+		])
+	})
+
+	test('Should delete the oldest sessions until the total size fits', () => {
+		assert.deepStrictEqual(prune({ maxTotalSize: 6 }), [
+			['a', 'Over the total size of 6 MB'],
+			['c', 'Over the total size of 6 MB'],
+		])
+		// Only half of each session is freed when deleting the source CSV files
+		assert.deepStrictEqual(prune({ maxTotalSize: 8, deleteSourceOnly: true }), [
+			['a', 'Over the total size of 8 MB'],
+			['c', 'Over the total size of 8 MB'],
+			['d', 'Over the total size of 8 MB'],
+		])
+	})
+
+	test('Should count the kept sessions against the limits without deleting them', () => {
+		const kept = { ...buildSession('f', 0, 4), kept: true }
+		assert.deepStrictEqual(
+			selectSessionsToPrune([kept, ...sessions], { ...noLimits, maxSessions: 2 }, NOW).map(
+				({ session }) => session.name
+			),
+			['a', 'c', 'd']
+		)
+		assert.deepStrictEqual(
+			selectSessionsToPrune([kept, ...sessions], { ...noLimits, maxTotalSize: 8 }, NOW).map(
+				({ session }) => session.name
+			),
+			['a', 'c', 'd']
+		)
+	})
+
+	test('Should delete only the source files of the sessions with exports', () => {
+		const withoutExports = { ...buildSession('f', 30), hasExports: false }
+		const withoutSource = { ...buildSession('g', 30), sourceSize: 0 }
+		assert.deepStrictEqual(
+			selectSessionsToPrune(
+				[withoutExports, withoutSource, sessions[0]],
+				{ ...noLimits, maxAge: 7, deleteSourceOnly: true },
+				NOW
+			).map(({ session }) => session.name),
+			['a']
+		)
+	})
+})
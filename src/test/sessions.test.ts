@@ -0,0 +1,33 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { getAvailableSessionPath, getRenamedSessionName } from '../sessions'
+
+suite('Sessions Tests', () => {
+	test('Should rename a session folder keeping its start time', () => {
+		assert.strictEqual(
+			getRenamedSessionName('vs-code-recorder-2024_05_15-09.30.05.123', 'retro'),
+			'retro-2024_05_15-09.30.05.123'
+		)
+		assert.strictEqual(
+			getRenamedSessionName('retor-2024_05_15-09.30.05.123-edited-2', 'retro'),
+			'retro-2024_05_15-09.30.05.123-edited-2'
+		)
+		assert.strictEqual(getRenamedSessionName('old recordings', 'archive'), 'archive')
+	})
+
+	test('Should find a free name for a copy of a session folder', () => {
+		const exportPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-code-recorder-'))
+		try {
+			const sessionPath = path.join(exportPath, 'retro-2024_05_15-09.30.05.123')
+			assert.strictEqual(getAvailableSessionPath(sessionPath, '-copy'), `${sessionPath}-copy`)
+
+			fs.mkdirSync(`${sessionPath}-copy`)
+			fs.mkdirSync(`${sessionPath}-copy-2`)
+			assert.strictEqual(getAvailableSessionPath(sessionPath, '-copy'), `${sessionPath}-copy-3`)
+		} finally {
+			fs.rmSync(exportPath, { recursive: true, force: true })
+		}
+	})
+})
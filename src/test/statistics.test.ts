@@ -0,0 +1,114 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { type ActivityEvent, computeStatistics, writeRecordingStatistics } from '../statistics'
+import { buildCsvHeader, buildCsvLine } from '../csv'
+import type { RecordingStatistics } from '../types'
+
+/**
+ * Builds an activity event.
+ * @param time - The time of the event.
+ * @param file - The file of the event.
+ * @param insertedCharacters - The number of characters inserted.
+ * @param deletedCharacters - The number of characters deleted.
+ * @returns The event, a focus event when nothing was inserted or deleted.
+ */
+const buildEvent = (
+	time: number,
+	file: string,
+	insertedCharacters = 0,
+	deletedCharacters = 0
+): ActivityEvent => ({
+	time,
+	file,
+	language: file.endsWith('.ts') ? 'typescript' : 'markdown',
+	isFocus: insertedCharacters === 0 && deletedCharacters === 0,
+	insertedCharacters,
+	deletedCharacters,
+})
+
+suite('Statistics Tests', () => {
+	let sessionPath: string
+
+	setup(() => {
+		sessionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-code-recorder-'))
+	})
+
+	teardown(() => {
+		fs.rmSync(sessionPath, { recursive: true, force: true })
+	})
+
+	test('Should compute the statistics of the activity', () => {
+		const statistics = computeStatistics(
+			[
+				buildEvent(0, 'a.ts'),
+				buildEvent(1000, 'a.ts', 1),
+				buildEvent(2000, 'a.ts', 3, 1),
+				buildEvent(12000, 'b.md'),
+				buildEvent(20000, 'b.md', 0, 4),
+				buildEvent(25000, 'a.ts'),
+			],
+			30000
+		)
+
+		assert.deepStrictEqual(
+			{ ...statistics, longestIdlePeriods: statistics.longestIdlePeriods.slice(0, 3) },
+			{
+				version: 1,
+				duration: 30000,
+				insertions: 2,
+				insertedCharacters: 4,
+				deletions: 2,
+				deletedCharacters: 5,
+				insertionsPerMinute: 4,
+				charactersPerMinute: 8,
+				fileSwitches: 2,
+				timePerFile: { 'a.ts': 17000, 'b.md': 13000 },
+				timePerLanguage: { typescript: 17000, markdown: 13000 },
+				longestIdlePeriods: [
+					{ startTime: 2000, duration: 10000 },
+					{ startTime: 12000, duration: 8000 },
+					{ startTime: 20000, duration: 5000 },
+				],
+			}
+		)
+	})
+
+	test('Should write the statistics of the source CSV file without the paused time', async () => {
+		const rows = [
+			{ time: 0, type: 'tab', text: '', rangeLength: 0 },
+			{ time: 1000, type: 'content', text: 'ab', rangeLength: 0 },
+			{ time: 2000, type: 'pause', text: '', rangeLength: 0 },
+			{ time: 62000, type: 'resume', text: '', rangeLength: 0 },
+			{ time: 63000, type: 'content', text: '', rangeLength: 1 },
+		]
+		fs.writeFileSync(
+			path.join(sessionPath, 'source.csv'),
+			buildCsvHeader() +
+				rows
+					.map((row, index) =>
+						buildCsvLine({
+							...row,
+							sequence: index + 1,
+							file: 'a.ts',
+							rangeOffset: 0,
+							language: 'typescript',
+						})
+					)
+					.join('')
+		)
+
+		const summaryPath = await writeRecordingStatistics(sessionPath)
+
+		const statistics: RecordingStatistics = JSON.parse(
+			fs.readFileSync(path.join(sessionPath, 'stats.json'), 'utf8')
+		)
+		assert.strictEqual(statistics.duration, 3000)
+		assert.strictEqual(statistics.insertedCharacters, 2)
+		assert.strictEqual(statistics.deletedCharacters, 1)
+		assert.deepStrictEqual(statistics.timePerFile, { 'a.ts': 3000 })
+		assert.strictEqual(summaryPath, path.join(sessionPath, 'stats.md'))
+		assert.ok(fs.readFileSync(summaryPath, 'utf8').includes('| a.ts | 00:03 | 100% |'))
+	})
+})
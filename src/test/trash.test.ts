@@ -0,0 +1,65 @@
+import * as assert from 'node:assert'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { TRASH_FOLDER_NAME, moveToTrash, restoreFromTrash } from '../trash'
+
+suite('Trash Tests', () => {
+	let exportPath: string
+	let sessionPath: string
+
+	setup(() => {
+		exportPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-code-recorder-'))
+		sessionPath = path.join(exportPath, 'retro-2024_05_15-09.30.05.123')
+		fs.mkdirSync(sessionPath)
+		fs.writeFileSync(path.join(sessionPath, 'source.csv'), 'source')
+		fs.writeFileSync(path.join(sessionPath, 'recording.json'), '[]')
+		fs.writeFileSync(path.join(exportPath, 'recording.srt'), '')
+	})
+
+	teardown(() => {
+		fs.rmSync(exportPath, { recursive: true, force: true })
+	})
+
+	test('Should move the deleted items to the trash folder and restore them', async () => {
+		const filePath = path.join(sessionPath, 'recording.json')
+		const rootFilePath = path.join(exportPath, 'recording.srt')
+		const trashedItems = await moveToTrash(exportPath, [sessionPath, filePath, rootFilePath])
+
+		assert.deepStrictEqual(fs.readdirSync(exportPath), [TRASH_FOLDER_NAME])
+		assert.deepStrictEqual(
+			trashedItems.items.map(item => path.relative(trashedItems.folderPath, item.trashPath)),
+			['retro-2024_05_15-09.30.05.123', 'recording.srt']
+		)
+
+		assert.deepStrictEqual(await restoreFromTrash(trashedItems), [])
+		assert.strictEqual(fs.readFileSync(path.join(sessionPath, 'source.csv'), 'utf8'), 'source')
+		assert.ok(fs.existsSync(filePath))
+		assert.ok(fs.existsSync(rootFilePath))
+		assert.deepStrictEqual(fs.readdirSync(path.join(exportPath, TRASH_FOLDER_NAME)), [])
+	})
+
+	test('Should keep in the trash the items whose path is taken again', async () => {
+		const filePath = path.join(sessionPath, 'recording.json')
+		const trashedItems = await moveToTrash(exportPath, [filePath])
+		fs.writeFileSync(filePath, '[{}]')
+
+		assert.deepStrictEqual(await restoreFromTrash(trashedItems), [filePath])
+		assert.strictEqual(fs.readFileSync(filePath, 'utf8'), '[{}]')
+		assert.ok(fs.existsSync(trashedItems.items[0].trashPath))
+	})
+
+	test('Should move nothing when an item is not under the export path', async () => {
+		const otherExportPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vs-code-recorder-'))
+		const otherFilePath = path.join(otherExportPath, 'recording.srt')
+		fs.writeFileSync(otherFilePath, '')
+		try {
+			await assert.rejects(moveToTrash(exportPath, [sessionPath, otherFilePath]))
+			assert.ok(fs.existsSync(sessionPath))
+			assert.ok(fs.existsSync(otherFilePath))
+			assert.ok(!fs.existsSync(path.join(exportPath, TRASH_FOLDER_NAME)))
+		} finally {
+			fs.rmSync(otherExportPath, { recursive: true, force: true })
+		}
+	})
+})
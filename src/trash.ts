@@ -0,0 +1,172 @@
+import * as vscode from 'vscode'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { logToOutput } from './utilities'
+
+/**
+ * Folder of the export path holding the deleted items until the deletion can no longer be undone.
+ * It is hidden from the recordFiles view, as it holds no recording files itself.
+ */
+export const TRASH_FOLDER_NAME = '.trash'
+
+/**
+ * Items moved to the trash folder of the export path by a single deletion.
+ */
+export interface TrashedItems {
+	/** The folder of the deletion in the trash folder. */
+	folderPath: string
+	/** The original path and the path in the trash folder of each item. */
+	items: { originalPath: string; trashPath: string }[]
+}
+
+/**
+ * Moves files and folders of the export path to its trash folder, keeping their relative paths,
+ * so that the deletion can be undone. The items inside another of the folders are moved with it.
+ * @param exportPath - The export path.
+ * @param itemPaths - The paths to the files and folders, under the export path.
+ * @returns The trashed items.
+ * @throws If one of the items is not under the export path, before any item is moved.
+ */
+export async function moveToTrash(exportPath: string, itemPaths: string[]): Promise<TrashedItems> {
+	const outsidePath = itemPaths.find(itemPath => {
+		const relativePath = path.relative(exportPath, itemPath)
+		return !relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)
+	})
+	if (outsidePath) {
+		throw new Error(`Not under the export path ${exportPath}: ${outsidePath}`)
+	}
+	const folderPath = path.join(exportPath, TRASH_FOLDER_NAME, String(Date.now()))
+	const trashedItems: TrashedItems = { folderPath, items: [] }
+	const topItemPaths = itemPaths.filter(
+		itemPath => !itemPaths.some(otherPath => itemPath.startsWith(`${otherPath}${path.sep}`))
+	)
+	for (const originalPath of topItemPaths) {
+		const trashPath = path.join(folderPath, path.relative(exportPath, originalPath))
+		await fs.promises.mkdir(path.dirname(trashPath), { recursive: true })
+		await fs.promises.rename(originalPath, trashPath)
+		trashedItems.items.push({ originalPath, trashPath })
+	}
+	return trashedItems
+}
+
+/**
+ * Moves trashed items back to their original path. The items whose original path
+ * is taken again are left in the trash.
+ * @param trashedItems - The trashed items.
+ * @returns The original paths of the items that could not be restored.
+ */
+export async function restoreFromTrash(trashedItems: TrashedItems): Promise<string[]> {
+	const notRestoredPaths: string[] = []
+	for (const { originalPath, trashPath } of trashedItems.items) {
+		if (fs.existsSync(originalPath) || !fs.existsSync(trashPath)) {
+			notRestoredPaths.push(originalPath)
+			continue
+		}
+		await fs.promises.mkdir(path.dirname(originalPath), { recursive: true })
+		await fs.promises.rename(trashPath, originalPath)
+	}
+	if (notRestoredPaths.length === 0) {
+		await fs.promises.rm(trashedItems.folderPath, { recursive: true, force: true })
+	}
+	return notRestoredPaths
+}
+
+/**
+ * Sends a file or folder to the trash of the operating system. When the file system has no trash,
+ * it is deleted permanently only if the user confirms it, otherwise it is left where it is.
+ * @param itemPath - The path to the file or folder.
+ * @returns `true` if the file or folder was deleted, `false` otherwise.
+ */
+export async function sendToSystemTrash(itemPath: string): Promise<boolean> {
+	const uri = vscode.Uri.file(itemPath)
+	try {
+		await vscode.workspace.fs.delete(uri, { recursive: true, useTrash: true })
+		return true
+	} catch (err) {
+		const errorMessage = vscode.l10n.t('Could not move {path} to the trash: {error}', {
+			path: itemPath,
+			error: String(err),
+		})
+		logToOutput(errorMessage, 'error')
+		const deletePermanently = vscode.l10n.t('Delete Permanently')
+		const result = await vscode.window.showWarningMessage(
+			errorMessage,
+			{
+				modal: true,
+				detail: vscode.l10n.t('Do you want to delete it permanently? This cannot be undone.'),
+			},
+			deletePermanently
+		)
+		if (result !== deletePermanently) {
+			return false
+		}
+		await vscode.workspace.fs.delete(uri, { recursive: true, useTrash: false })
+		return true
+	}
+}
+
+/**
+ * Sends the trashed items to the trash of the operating system. The items the user
+ * chose not to delete permanently are left in the trash folder of the export path.
+ * @param trashedItems - The trashed items.
+ */
+export async function emptyTrash(trashedItems: TrashedItems): Promise<void> {
+	if (fs.existsSync(trashedItems.folderPath)) {
+		await sendToSystemTrash(trashedItems.folderPath)
+	}
+}
+
+/**
+ * Sends the items left in the trash folder of the export path, by deletions that were neither
+ * undone nor completed before VS Code was closed, to the trash of the operating system.
+ * @param exportPath - The export path.
+ */
+export async function emptyTrashFolder(exportPath: string): Promise<void> {
+	const trashFolderPath = path.join(exportPath, TRASH_FOLDER_NAME)
+	if (fs.existsSync(trashFolderPath)) {
+		await sendToSystemTrash(trashFolderPath)
+	}
+}
+
+/**
+ * Deletes files and folders of the export path, offering to undo the deletion.
+ * The items are kept in the trash folder of the export path until the notification is closed,
+ * then they are sent to the trash of the operating system.
+ * @param exportPath - The export path.
+ * @param itemPaths - The paths to the files and folders, under the export path.
+ * @param onChange - Called when the items are deleted and when they are restored.
+ */
+export async function deleteWithUndo(
+	exportPath: string,
+	itemPaths: string[],
+	onChange: () => void
+): Promise<void> {
+	const trashedItems = await moveToTrash(exportPath, itemPaths)
+	onChange()
+
+	const undo = vscode.l10n.t('Undo')
+	const result = await vscode.window.showInformationMessage(
+		trashedItems.items.length === 1
+			? vscode.l10n.t('Deleted {name}', { name: path.basename(trashedItems.items[0].originalPath) })
+			: vscode.l10n.t('Deleted {count} items', { count: trashedItems.items.length }),
+		undo
+	)
+	if (result !== undo) {
+		await emptyTrash(trashedItems)
+		return
+	}
+
+	const notRestoredPaths = await restoreFromTrash(trashedItems)
+	onChange()
+	if (notRestoredPaths.length > 0) {
+		const errorMessage = vscode.l10n.t(
+			'Could not restore {names}, as a file with the same name exists. The deleted items are in {path}',
+			{
+				names: notRestoredPaths.map(notRestoredPath => path.basename(notRestoredPath)).join(', '),
+				path: trashedItems.folderPath,
+			}
+		)
+		vscode.window.showErrorMessage(errorMessage)
+		logToOutput(errorMessage, 'error')
+	}
+}
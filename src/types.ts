@@ -6,6 +6,18 @@ export interface File {
 export enum ChangeType {
 	CONTENT = 'content',
 	TAB = 'tab',
+	SELECTION = 'selection',
+	SNAPSHOT = 'snapshot',
+	PAUSE = 'pause',
+	RESUME = 'resume',
+	TERMINAL = 'terminal',
+	MARKER = 'marker',
+}
+
+export enum TerminalEvent {
+	INPUT = 'input',
+	OUTPUT = 'output',
+	EXIT = 'exit',
 }
 
 export interface CSVRowBuilder {
@@ -14,6 +26,37 @@ export interface CSVRowBuilder {
 	rangeLength: number
 	text: string
 	type?: string
+	file?: string
+	language?: string
+	time?: number
+	terminal?: TerminalRow
+}
+
+/**
+ * The terminal and the event of a terminal row. They are stored in the File and Language columns,
+ * but read apart, so the file and language of the rows are never the ones of a terminal.
+ */
+export interface TerminalRow {
+	name: string
+	event: string
+}
+
+export interface CSVRow {
+	sequence: number
+	time: number
+	file: string
+	rangeOffset: number
+	rangeLength: number
+	text: string
+	language: string
+	type: string
+	/** The terminal and the event of the terminal rows, whose file and language are empty. */
+	terminal?: TerminalRow
+}
+
+export interface ChangeSelection {
+	offset: number
+	length: number
 }
 
 export interface Change {
@@ -23,13 +66,118 @@ export interface Change {
 	endTime: number
 	language: string
 	text: string
+	selection?: ChangeSelection
+	paused?: boolean
+	idle?: boolean
+}
+
+export interface TerminalChange {
+	sequence: number
+	terminal: string
+	startTime: number
+	endTime: number
+	command: string
+	output: string
+	exitCode?: number
+}
+
+export interface Chapter {
+	sequence: number
+	title: string
+	startTime: number
+	endTime: number
+}
+
+export interface JsonRecording {
+	version: number
+	changes: Change[]
+	chapters: Chapter[]
+}
+
+export interface ProcessedRecording {
+	changes: Change[]
+	terminalChanges: TerminalChange[]
+	chapters: Chapter[]
+	/** The time at which the recording was stopped, relative to its start, when read from the source CSV file. */
+	recordedEndTime?: number
+}
+
+export interface ChangeDelta {
+	rangeOffset: number
+	rangeLength: number
+	text: string
+}
+
+export interface DiffChange extends Omit<Change, 'text'> {
+	keyframe?: string
+	delta?: ChangeDelta
+}
+
+export interface DiffRecording {
+	version: number
+	keyframeInterval: number
+	changes: DiffChange[]
+}
+
+export interface GitState {
+	branch?: string
+	commit?: string
+}
+
+export interface SessionManifest {
+	version: number
+	recordedBy?: string
+	vscodeVersion: string
+	extensionVersion: string
+	workspace?: string
+	workspaceFolder?: string
+	startTime?: string
+	endTime?: string
+	duration?: number
+	/** The name of the session folder an edited session was made from. */
+	derivedFrom?: string
+	git?: {
+		start?: GitState
+		end?: GitState
+	}
+	files: string[]
+	exportSettings?: {
+		exportFormats: string[]
+		pausedIntervals?: string
+		diffKeyframeInterval?: number
+		maxIdleTime?: number
+		markIdleTime?: boolean
+		speedFactor?: number
+	}
+}
+
+export interface IdlePeriod {
+	startTime: number
+	duration: number
+}
+
+export interface RecordingStatistics {
+	version: number
+	duration: number
+	insertions: number
+	insertedCharacters: number
+	deletions: number
+	deletedCharacters: number
+	insertionsPerMinute: number
+	charactersPerMinute: number
+	fileSwitches: number
+	timePerFile: Record<string, number>
+	timePerLanguage: Record<string, number>
+	longestIdlePeriods: IdlePeriod[]
 }
 
 export interface Recording {
 	isRecording: boolean
+	isPaused: boolean
 	timer: number
 	startDateTime: Date | null
 	endDateTime: Date | null
 	sequence: number
 	customFolderName?: string
+	exportPath?: string
 }
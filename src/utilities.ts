@@ -20,19 +20,114 @@ export function getConfig() {
 	return vscode.workspace.getConfiguration('vsCodeRecorder')
 }
 
+/**
+ * Matches the workspace folder variable at the start of an export path:
+ * `${workspaceFolder}` or `${workspaceFolder:name}`.
+ */
+const WORKSPACE_FOLDER_VARIABLE = /^\$\{workspaceFolder(?::([^}]+))?\}/
+
+/**
+ * Checks if an export path is relative to a workspace folder.
+ *
+ * @param exportPath - The export path of the settings.
+ * @returns `true` if the path starts with a workspace folder variable, `false` otherwise.
+ */
+export function isWorkspaceExportPath(exportPath: string | undefined): boolean {
+	return exportPath !== undefined && WORKSPACE_FOLDER_VARIABLE.test(exportPath)
+}
+
+/**
+ * Gets the workspace folder of the active text editor, or the first workspace folder
+ * if the active file is not within a workspace folder.
+ *
+ * @returns The workspace folder, or `undefined` if no folder is open.
+ */
+export function getCurrentWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+	const document = vscode.window.activeTextEditor?.document
+	return (
+		(document && vscode.workspace.getWorkspaceFolder(document.uri)) ??
+		vscode.workspace.workspaceFolders?.[0]
+	)
+}
+
+/**
+ * Gets the workspace folder an export path is relative to: the folder named by
+ * `${workspaceFolder:name}`, or the given folder for `${workspaceFolder}`.
+ *
+ * @param exportPath - The export path of the settings.
+ * @param workspaceFolder - The folder `${workspaceFolder}` refers to.
+ * @returns The workspace folder, or `undefined` if the path is not relative to a workspace folder
+ * or the named folder is not open.
+ */
+export function getExportWorkspaceFolder(
+	exportPath: string,
+	workspaceFolder = getCurrentWorkspaceFolder()
+): vscode.WorkspaceFolder | undefined {
+	const match = exportPath.match(WORKSPACE_FOLDER_VARIABLE)
+	if (!match) {
+		return
+	}
+	const folderName = match[1]
+	return folderName
+		? vscode.workspace.workspaceFolders?.find(folder => folder.name === folderName)
+		: workspaceFolder
+}
+
+/**
+ * Resolves the export path of the settings, without creating it or prompting the user.
+ *
+ * @param workspaceFolder - The folder `${workspaceFolder}` refers to.
+ * @returns The normalized export path, or `undefined` if it can't be resolved.
+ */
+export function resolveExportPath(
+	workspaceFolder = getCurrentWorkspaceFolder()
+): string | undefined {
+	let exportPath = getConfig().get<string>('export.exportPath')
+	if (!exportPath) {
+		return
+	}
+	if (isWorkspaceExportPath(exportPath)) {
+		const exportWorkspaceFolder = getExportWorkspaceFolder(exportPath, workspaceFolder)
+		if (!exportWorkspaceFolder) {
+			return
+		}
+		exportPath = exportPath.replace(WORKSPACE_FOLDER_VARIABLE, exportWorkspaceFolder.uri.fsPath)
+	}
+	exportPath = exportPath.trim().replaceAll('\\', '/')
+	return exportPath.endsWith('/') ? exportPath : `${exportPath}/`
+}
+
+/**
+ * Resolves the export paths of all the workspace folders, without creating them or prompting the user.
+ * Without workspace folders, only the export path of the settings is resolved.
+ *
+ * @returns The distinct export paths that can be resolved.
+ */
+export function resolveExportPaths(): string[] {
+	const workspaceFolders = vscode.workspace.workspaceFolders ?? []
+	const exportPaths =
+		workspaceFolders.length > 0
+			? workspaceFolders.map(folder => resolveExportPath(folder))
+			: [resolveExportPath()]
+	return [
+		...new Set(exportPaths.flatMap(exportPath => (exportPath ? [path.resolve(exportPath)] : []))),
+	]
+}
+
 /**
  * Creates a directory at the specified path if it does not already exist.
  *
  * @param path - The path of the directory to create.
+ * @param workspaceFolder - The workspace folder the path is within, if any.
  * @returns Void.
  */
-export async function createPath(path: string) {
+export async function createPath(path: string, workspaceFolder?: vscode.WorkspaceFolder) {
 	// If the setting is enabled and the path is inside the workspace, add it to .gitignore
 	if (
 		getConfig().get<boolean>('export.addToGitignore') &&
-		getConfig().get<string>('export.exportPath')?.startsWith('${workspaceFolder}')
+		isWorkspaceExportPath(getConfig().get<string>('export.exportPath'))
 	) {
-		await addToGitignore()
+		await addToGitignore(workspaceFolder)
 	}
 
 	if (!fs.existsSync(path)) {
@@ -43,13 +138,15 @@ export async function createPath(path: string) {
 /**
  * Retrieves the export path for the VS Code Recorder extension, handling various scenarios such as:
  * - If no export path is specified, it prompts the user to reset to default or open the settings.
- * - If the export path starts with '${workspaceFolder}', it replaces it with the actual workspace path.
+ * - If the export path starts with '${workspaceFolder}', it replaces it with the path of the given workspace folder,
+ *   and '${workspaceFolder:name}' with the path of the workspace folder with that name.
  * - If the export path does not exist and the 'export.createPathOutsideWorkspace' setting is false, it prompts the user to reset to default or open the settings.
  * - It trims, normalizes, and updates the export path in the extension settings.
  *
+ * @param workspaceFolder - The folder `${workspaceFolder}` refers to, defaults to the folder of the active editor.
  * @returns The normalized and updated export path, or `undefined` if an error occurred.
  */
-export function getExportPath(): string | undefined {
+export function getExportPath(workspaceFolder = getCurrentWorkspaceFolder()): string | undefined {
 	const exportPath = getConfig().get<string>('export.exportPath')
 	let outputExportPath = exportPath
 	const resetToDefaultMessage = vscode.l10n.t('Reset to default')
@@ -88,16 +185,19 @@ export function getExportPath(): string | undefined {
 		return
 	}
 
-	if (outputExportPath?.startsWith('${workspaceFolder}')) {
-		const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath
-		if (!workspacePath) {
+	if (isWorkspaceExportPath(outputExportPath)) {
+		const exportWorkspaceFolder = getExportWorkspaceFolder(outputExportPath, workspaceFolder)
+		if (!exportWorkspaceFolder) {
 			const errorMessage = vscode.l10n.t('error.workspaceFolderNotFound')
 			vscode.window.showErrorMessage(errorMessage)
 			logToOutput(errorMessage, 'error')
 			return
 		}
-		outputExportPath = outputExportPath.replace('${workspaceFolder}', workspacePath)
-		createPath(outputExportPath)
+		outputExportPath = outputExportPath.replace(
+			WORKSPACE_FOLDER_VARIABLE,
+			exportWorkspaceFolder.uri.fsPath
+		)
+		createPath(outputExportPath, exportWorkspaceFolder)
 	} else {
 		if (
 			!fs.existsSync(outputExportPath) &&
@@ -125,7 +225,7 @@ export function getExportPath(): string | undefined {
 		outputExportPath += '/'
 	}
 
-	if (!exportPath?.startsWith('${workspaceFolder}')) {
+	if (!isWorkspaceExportPath(exportPath)) {
 		getConfig().update('export.exportPath', outputExportPath, vscode.ConfigurationTarget.Global)
 	}
 	if (path.sep === '/') {
@@ -188,25 +288,47 @@ export function generateFileName(
 }
 
 /**
- * Retrieves the language identifier of the currently active text editor.
+ * Retrieves the language identifier of a document.
  *
- * @return {string} The language identifier of the active text editor
+ * @param document - The document to inspect, defaults to the active text editor's document.
+ * @return {string} The language identifier of the document
  */
-export function getEditorLanguage(): string {
-	const editor = vscode.window.activeTextEditor
-	if (editor) {
-		console.log(editor.document.languageId)
-		return editor.document.languageId
+export function getEditorLanguage(document = vscode.window.activeTextEditor?.document): string {
+	if (document) {
+		return document.languageId
 	}
 	return ''
 }
 
 /**
- * Gets the relative path of the active text editor's file.
- * @returns A string representing the relative path of the active text editor's file.
+ * Gets the relative path of a document's file.
+ * @param document - The document to inspect, defaults to the active text editor's document.
+ * @returns A string representing the relative path of the document's file.
  */
-export function getEditorFileName(): string {
-	return vscode.workspace.asRelativePath(vscode.window.activeTextEditor?.document.fileName ?? '')
+export function getEditorFileName(document = vscode.window.activeTextEditor?.document): string {
+	// In multi-root workspaces the name of the workspace folder is included, so files are unique
+	const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+	return vscode.workspace.asRelativePath(document?.fileName ?? '', isMultiRoot)
+}
+
+/**
+ * Checks if a document matches any of the given glob patterns.
+ * Patterns are relative to the workspace folder of the document, if any.
+ * @param document - The document to check.
+ * @param patterns - The glob patterns, like `src/**`.
+ * @returns `true` if the document matches at least one pattern, `false` otherwise.
+ */
+export function matchesGlobs(document: vscode.TextDocument, patterns: string[]): boolean {
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
+	return patterns.some(
+		pattern =>
+			vscode.languages.match(
+				{
+					pattern: workspaceFolder ? new vscode.RelativePattern(workspaceFolder, pattern) : pattern,
+				},
+				document
+			) > 0
+	)
 }
 
 /**
@@ -281,71 +403,81 @@ export function formatSrtTime(milliseconds: number): string {
 }
 
 /**
- * Escapes special characters in a string for CSV compatibility.
- * @param editorText - The text to escape.
- * @returns A string with escaped characters.
+ * Formats a time value in milliseconds to a WebVTT time string.
+ * @param milliseconds - The number of milliseconds.
+ * @returns A string representing the formatted WebVTT time.
  */
-export function escapeString(editorText: string | undefined): string {
-	if (editorText === undefined) {
-		return ''
-	}
-	return editorText
-		.replace(/"/g, '""')
-		.replace(/\r\n/g, '\\r\\n')
-		.replace(/\n/g, '\\n')
-		.replace(/\r/g, '\\r')
-		.replace(/\t/g, '\\t')
+export function formatVttTime(milliseconds: number): string {
+	return formatSrtTime(milliseconds).replace(',', '.')
 }
 
 /**
- * Removes double quotes at the start and end of a text string.
- * @param text - The text to process.
- * @returns A string without surrounding double quotes.
+ * Escapes the HTML special characters of a string.
+ * @param text - The text to escape.
+ * @returns The escaped text.
  */
-export function removeDoubleQuotes(text: string): string {
-	return text.replace(/^"(.*)"$/, '$1')
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
 }
 
 /**
- * Unescape special characters in a string.
- * @param text - The text to unescape.
- * @returns A string with unescaped characters.
+ * Gets the .gitignore file of the workspace folder the export path is within,
+ * and the entry of the export path in it.
+ * @param workspaceFolder - The folder `${workspaceFolder}` refers to.
+ * @returns The path to the .gitignore file and the export path relative to its folder,
+ * or `undefined` if the export path is not set or there is no workspace folder.
  */
-export function unescapeString(text: string): string {
-	return text
-		.replace(/""/g, '"')
-		.replace(/\\r\\n/g, '\r\n')
-		.replace(/\\n/g, '\n')
-		.replace(/\\r/g, '\r')
-		.replace(/\\t/g, '\t')
+export function getGitignoreEntry(
+	workspaceFolder = getCurrentWorkspaceFolder()
+): { gitignorePath: string; relativePath: string } | undefined {
+	const exportPath = getConfig().get<string>('export.exportPath')
+	if (!exportPath) {
+		return
+	}
+	const gitignoreFolder = isWorkspaceExportPath(exportPath)
+		? getExportWorkspaceFolder(exportPath, workspaceFolder)
+		: workspaceFolder
+	if (!gitignoreFolder) {
+		return
+	}
+
+	// Get the relative path from workspace folder, removing leading and trailing slashes
+	const relativePath = exportPath
+		.replace(WORKSPACE_FOLDER_VARIABLE, '')
+		.replace(/\\/g, '/')
+		.replace(/^\/+|\/+$/g, '')
+	return { gitignorePath: path.join(gitignoreFolder.uri.fsPath, '.gitignore'), relativePath }
 }
 
 /**
- * Adds the export path to .gitignore if it doesn't exist.
+ * Adds the export path to the .gitignore of its workspace folder if it doesn't exist.
+ * @param workspaceFolder - The folder `${workspaceFolder}` refers to, defaults to the folder of the active editor.
  * @returns true if the path was added, false if it already exists or if there was an error
  */
-export async function addToGitignore(): Promise<boolean> {
-	const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+export async function addToGitignore(
+	workspaceFolder = getCurrentWorkspaceFolder()
+): Promise<boolean> {
 	if (!workspaceFolder) {
 		vscode.window.showErrorMessage(vscode.l10n.t('error.noWorkspace'))
 		return false
 	}
 
-	const gitignorePath = path.join(workspaceFolder.uri.fsPath, '.gitignore')
-	const exportPath = getConfig().get<string>('export.exportPath')
-
-	if (!exportPath) {
+	if (!getConfig().get<string>('export.exportPath')) {
 		vscode.window.showErrorMessage(vscode.l10n.t('error.noExportPath'))
 		return false
 	}
 
-	// Get the relative path from workspace folder
-	let relativePath = exportPath
-	if (exportPath.startsWith('${workspaceFolder}')) {
-		relativePath = exportPath.replace('${workspaceFolder}', '').replace(/\\/g, '/')
+	const gitignoreEntry = getGitignoreEntry(workspaceFolder)
+	if (!gitignoreEntry) {
+		vscode.window.showErrorMessage(vscode.l10n.t('error.workspaceFolderNotFound'))
+		return false
 	}
-	// Remove leading and trailing slashes
-	relativePath = relativePath.replace(/^\/+|\/+$/g, '')
+	const { gitignorePath, relativePath } = gitignoreEntry
 
 	try {
 		let content = ''
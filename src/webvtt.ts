@@ -0,0 +1,107 @@
+import type { Change, Chapter } from './types'
+import { getChangeSummary } from './cueText'
+import { formatVttTime } from './utilities'
+
+/**
+ * Style of the cues, applied by the browsers to the classes of the cue text.
+ */
+const CUE_STYLE = `STYLE
+::cue(.file) {
+	color: #4fc1ff;
+	font-weight: bold;
+}
+::cue(.language) {
+	color: #b5cea8;
+}
+::cue(.summary) {
+	color: #ffffff;
+}`
+
+/**
+ * Escapes the characters of a text that have a meaning in a WebVTT cue.
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+function escapeCueText(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Builds a WebVTT cue.
+ * @param identifier - The identifier of the cue.
+ * @param start - The start time of the cue.
+ * @param end - The end time of the cue.
+ * @param text - The text of the cue, without blank lines.
+ * @returns A string representing a cue in the WebVTT file format.
+ */
+function addVttCue(identifier: string, start: number, end: number, text: string): string {
+	return `${identifier}\n${formatVttTime(start)} --> ${formatVttTime(end)}\n${text}\n\n`
+}
+
+/**
+ * Builds a WebVTT file with a styled, human-readable cue for each change: the file,
+ * its language and a summary of what changed.
+ * @see https://www.w3.org/TR/webvtt1/
+ * @param processedChanges - The processed changes.
+ * @returns The content of the WebVTT file.
+ */
+export function buildVttFile(processedChanges: Change[]): string {
+	const snapshots = new Map<string, string>()
+	const cues = processedChanges.map(change => {
+		const summary = getChangeSummary(change, snapshots.get(change.file))
+		snapshots.set(change.file, change.text)
+		const header = change.language
+			? `<c.file>${escapeCueText(change.file)}</c> <c.language>${escapeCueText(change.language)}</c>`
+			: `<c.file>${escapeCueText(change.file)}</c>`
+		return addVttCue(
+			String(change.sequence),
+			change.startTime,
+			change.endTime,
+			`${header}\n<c.summary>${escapeCueText(summary)}</c>`
+		)
+	})
+	return `WEBVTT\n\n${CUE_STYLE}\n\n${cues.join('')}`
+}
+
+/**
+ * Builds a WebVTT metadata track with the full payload of each change as JSON,
+ * to be read by scripts through a `metadata` text track.
+ * @param processedChanges - The processed changes.
+ * @returns The content of the WebVTT file.
+ */
+export function buildVttMetadataFile(processedChanges: Change[]): string {
+	const cues = processedChanges.map(change =>
+		addVttCue(
+			String(change.sequence),
+			change.startTime,
+			change.endTime,
+			// The JSON has no line breaks, and `-->` would end the cue text
+			JSON.stringify({
+				text: change.text,
+				file: change.file,
+				language: change.language,
+				selection: change.selection,
+				paused: change.paused,
+				idle: change.idle,
+			}).replace(/-->/g, '--\\u003e')
+		)
+	)
+	return `WEBVTT\n\n${cues.join('')}`
+}
+
+/**
+ * Builds a WebVTT chapters track, with a cue for each chapter showing its title.
+ * @param chapters - The processed chapters.
+ * @returns The content of the WebVTT file.
+ */
+export function buildVttChaptersFile(chapters: Chapter[]): string {
+	const cues = chapters.map(chapter =>
+		addVttCue(
+			String(chapter.sequence),
+			chapter.startTime,
+			chapter.endTime,
+			escapeCueText(chapter.title)
+		)
+	)
+	return `WEBVTT\n\n${cues.join('')}`
+}